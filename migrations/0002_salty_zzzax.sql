@@ -0,0 +1 @@
+ALTER TABLE `node_executions` ADD `attempt` integer DEFAULT 1 NOT NULL;
\ No newline at end of file
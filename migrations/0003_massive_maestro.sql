@@ -0,0 +1 @@
+ALTER TABLE `workflows` ADD `deadline_ms` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `executions` ADD `checkpoint` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `executions` ADD `parent_execution_id` text;--> statement-breakpoint
+CREATE INDEX `idx_executions_parent_execution_id` ON `executions` (`parent_execution_id`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `node_executions` ADD `route` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `workflows` ADD `output` text;--> statement-breakpoint
+ALTER TABLE `workflows` ADD `output_schema` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `workflows` ADD `execution_mode` text;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `threads` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workflow_id` text NOT NULL,
+	`state` text NOT NULL,
+	`parent_thread_id` text,
+	`last_execution_id` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`workflow_id`) REFERENCES `workflows`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_threads_workflow_id` ON `threads` (`workflow_id`);--> statement-breakpoint
+CREATE INDEX `idx_threads_updated_at` ON `threads` (`updated_at`);--> statement-breakpoint
+ALTER TABLE `executions` ADD `thread_id` text;--> statement-breakpoint
+CREATE INDEX `idx_executions_thread_id` ON `executions` (`thread_id`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `executions` ADD `usage` text;--> statement-breakpoint
+ALTER TABLE `node_executions` ADD `usage` text;--> statement-breakpoint
+ALTER TABLE `workflows` ADD `budget` text;
\ No newline at end of file
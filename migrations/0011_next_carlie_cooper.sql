@@ -0,0 +1,4 @@
+ALTER TABLE `node_executions` ADD `iteration` integer;--> statement-breakpoint
+ALTER TABLE `node_executions` ADD `input` text;--> statement-breakpoint
+ALTER TABLE `node_executions` ADD `state_diff` text;--> statement-breakpoint
+ALTER TABLE `node_executions` ADD `duration_ms` integer;
\ No newline at end of file
@@ -10,7 +10,12 @@ export const workflows = sqliteTable('workflows', {
   startNode: text('start_node').notNull(),
   endNode: text('end_node').notNull(),
   maxIterations: integer('max_iterations').notNull().default(100),
+  deadlineMs: integer('deadline_ms'),
+  executionMode: text('execution_mode', { enum: ['sequential', 'dag'] }),
 	state: text('state', { mode: 'json' }),
+	output: text('output', { mode: 'json' }),
+	outputSchema: text('output_schema', { mode: 'json' }),
+	budget: text('budget', { mode: 'json' }),
 	defaultConfigId: text('default_config_id'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
@@ -19,10 +24,23 @@ export const workflows = sqliteTable('workflows', {
   defaultConfigIdx: index('idx_workflows_default_config').on(table.defaultConfigId),
 }));
 
+export const threads = sqliteTable('threads', {
+  id: text('id').primaryKey(),
+  workflowId: text('workflow_id').notNull().references(() => workflows.id, { onDelete: 'cascade' }),
+  state: text('state', { mode: 'json' }).notNull(),
+  parentThreadId: text('parent_thread_id'),
+  lastExecutionId: text('last_execution_id'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  workflowIdIdx: index('idx_threads_workflow_id').on(table.workflowId),
+  updatedAtIdx: index('idx_threads_updated_at').on(table.updatedAt),
+}));
+
 export const executions = sqliteTable('executions', {
   id: text('id').primaryKey(),
   workflowId: text('workflow_id').notNull().references(() => workflows.id, { onDelete: 'cascade' }),
-  status: text('status', { enum: ['pending', 'running', 'completed', 'failed'] }).notNull(),
+  status: text('status', { enum: ['pending', 'running', 'waiting', 'completed', 'failed', 'timed_out', 'cancelled'] }).notNull(),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   completedAt: integer('completed_at', { mode: 'timestamp' }),
   parameters: text('parameters', { mode: 'json' }).notNull(),
@@ -30,20 +48,34 @@ export const executions = sqliteTable('executions', {
   configId: text('config_id'),
   result: text('result', { mode: 'json' }),
   error: text('error'),
+  checkpoint: text('checkpoint', { mode: 'json' }),
+  parentExecutionId: text('parent_execution_id'),
+  threadId: text('thread_id'),
+  usage: text('usage', { mode: 'json' }),
+  heartbeatAt: integer('heartbeat_at', { mode: 'timestamp' }),
 }, (table) => ({
   workflowIdIdx: index('idx_executions_workflow_id').on(table.workflowId),
   statusIdx: index('idx_executions_status').on(table.status),
 	createdAtIdx: index('idx_executions_created_at').on(table.createdAt),
   configIdIdx: index('idx_executions_config_id').on(table.configId),
+  parentExecutionIdIdx: index('idx_executions_parent_execution_id').on(table.parentExecutionId),
+  threadIdIdx: index('idx_executions_thread_id').on(table.threadId),
 }));
 
 export const nodeExecutions = sqliteTable('node_executions', {
   id: text('id').primaryKey(),
   executionId: text('execution_id').notNull().references(() => executions.id, { onDelete: 'cascade' }),
   nodeId: text('node_id').notNull(),
-  status: text('status', { enum: ['pending', 'running', 'completed', 'failed'] }).notNull(),
+  status: text('status', { enum: ['pending', 'running', 'completed', 'failed', 'timed_out', 'cancelled'] }).notNull(),
+  attempt: integer('attempt').notNull().default(1),
+  iteration: integer('iteration'),
+  input: text('input', { mode: 'json' }),
   output: text('output', { mode: 'json' }),
   error: text('error'),
+  route: text('route', { mode: 'json' }),
+  usage: text('usage', { mode: 'json' }),
+  stateDiff: text('state_diff', { mode: 'json' }),
+  durationMs: integer('duration_ms'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   completedAt: integer('completed_at', { mode: 'timestamp' }),
 }, (table) => ({
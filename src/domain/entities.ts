@@ -2,6 +2,19 @@ import { z } from "zod";
 import { toOptional, withTimestamps } from "../utils/zod";
 
 
+export const NodeRetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10),
+  initialDelayMs: z.number().int().nonnegative().optional(),
+  backoffMultiplier: z.number().min(1).optional(),
+  maxDelayMs: z.number().int().nonnegative().optional(),
+  jitter: z.boolean().optional(),
+  retryOn: z.object({
+    errors: z.array(z.string()).optional(),
+    statuses: z.array(z.number().int()).optional(),
+  }).optional(),
+});
+export type NodeRetryPolicy = z.infer<typeof NodeRetryPolicySchema>;
+
 export const NodeSchema = z.object({
   id: z.string(),
   type: z.string(),
@@ -16,6 +29,8 @@ export const NodeSchema = z.object({
     enabled: z.boolean().optional(),
     sendOnComplete: z.boolean().optional(),
   }).optional(),
+  retry: NodeRetryPolicySchema.optional(),
+  timeoutMs: z.number().int().positive().optional(),
 });
 export type NodeModel = z.infer<typeof NodeSchema>;
 
@@ -31,22 +46,87 @@ export const DynamicEdgeSchema = z.object({
 	conditions: z.array(z.object({
 		node: z.string(),
 		condition: z.string(),
-	}))
+	})),
+	// Taken when no condition passes
+	default: z.string().optional(),
+});
+
+export const SwitchEdgeSchema = z.object({
+  id: z.string(),
+  from: z.string(),
+  expression: z.string(),
+  // Maps the stringified expression value to the target node id
+  cases: z.record(z.string(), z.string()),
+  default: z.string().optional(),
+});
+
+export const ParallelEdgeSchema = z.object({
+  id: z.string(),
+  from: z.string(),
+  branches: z.array(z.string()).min(2),
+  join: z.string(),
+});
+
+export const ErrorEdgeSchema = z.object({
+  id: z.string(),
+  from: z.string(),
+  onError: z.string(),
 });
 
 export const EdgeSchema = z.discriminatedUnion('type', [
   StaticEdgeSchema.extend({ type: z.literal('static') }),
   DynamicEdgeSchema.extend({ type: z.literal('dynamic') }),
+  ParallelEdgeSchema.extend({ type: z.literal('parallel') }),
+  ErrorEdgeSchema.extend({ type: z.literal('error') }),
+  SwitchEdgeSchema.extend({ type: z.literal('switch') }),
 ]);
 
 export const EdgeInputSchema = z.union([
   StaticEdgeSchema,
   DynamicEdgeSchema,
+  ParallelEdgeSchema,
+  ErrorEdgeSchema,
+  SwitchEdgeSchema,
 ]);
 
 export type StaticEdge = z.infer<typeof StaticEdgeSchema>;
 export type DynamicEdge = z.infer<typeof DynamicEdgeSchema>;
-export type Edge = StaticEdge | DynamicEdge;
+export type ParallelEdge = z.infer<typeof ParallelEdgeSchema>;
+export type ErrorEdge = z.infer<typeof ErrorEdgeSchema>;
+export type SwitchEdge = z.infer<typeof SwitchEdgeSchema>;
+export type Edge = StaticEdge | DynamicEdge | ParallelEdge | ErrorEdge | SwitchEdge;
+
+export const NodeRouteSchema = z.object({
+	edgeId: z.string(),
+	target: z.string(),
+	// Index and expression of the dynamic condition that passed; null when the default was taken
+	conditionIndex: z.number().int().nullish(),
+	condition: z.string().nullish(),
+	// Value of the switch expression
+	value: z.any().optional(),
+	isDefault: z.boolean(),
+	// Branches started by a parallel edge, whose join node is `target`
+	branches: z.array(z.string()).optional(),
+	// Set when the node failed and its error edge led to `target`
+	onError: z.boolean().optional(),
+});
+export type NodeRoute = z.infer<typeof NodeRouteSchema>;
+
+
+export const TokenUsageSchema = z.object({
+	promptTokens: z.number().int().nonnegative(),
+	completionTokens: z.number().int().nonnegative(),
+	totalTokens: z.number().int().nonnegative(),
+	// Priced with the `modelPrices` config variable; calls to models without a price add nothing
+	cost: z.number().nonnegative(),
+});
+export type TokenUsage = z.infer<typeof TokenUsageSchema>;
+
+export const WorkflowBudgetSchema = z.object({
+	maxTokens: z.number().int().positive().optional(),
+	maxCost: z.number().positive().optional(),
+});
+export type WorkflowBudget = z.infer<typeof WorkflowBudgetSchema>;
 
 
 export const WorkflowSchema = withTimestamps(
@@ -60,36 +140,92 @@ export const WorkflowSchema = withTimestamps(
     endNode: z.string(),
 		state: z.record(z.string(), z.any()).default({}),
     maxIterations: z.number().int().positive(),
+    deadlineMs: z.number().int().positive().nullish(),
+    // `dag` runs nodes joined by static edges concurrently when their templates do not depend on each other
+    executionMode: z.enum(['sequential', 'dag']).nullish(),
+    // Template that shapes the execution result from `output` (the end node's output), `parent`, `state` and `parameters`
+    output: z.any().optional(),
+    // JSON Schema the execution result must match
+    outputSchema: z.record(z.string(), z.any()).nullish(),
+    // Fails the execution once its LLM calls, including those of sub-workflows, use more
+    budget: WorkflowBudgetSchema.nullish(),
     defaultConfigId: z.string(),
   })
 );
 export type WorkflowModel = z.infer<typeof WorkflowSchema>;
 
 
+export const ExecutionCheckpointSchema = z.object({
+	nextNodeId: z.string(),
+	scope: z.record(z.string(), z.any()).nullish(),
+	nodeOutputs: z.record(z.string(), z.any()),
+	state: z.record(z.string(), z.any()),
+	iterations: z.number().int().nonnegative(),
+	updatedAt: z.string(),
+	// Payload submitted on resume for the wait_for_input node at `nextNodeId`
+	input: z.any().optional(),
+	// Usage so far, so a resumed run keeps counting against the same budget
+	usage: TokenUsageSchema.nullish(),
+});
+export type ExecutionCheckpoint = z.infer<typeof ExecutionCheckpointSchema>;
+
+
 export const ExecutionSchema = withTimestamps(
 	z.object({
 		id: z.string(),
 		workflowId: z.string(),
-		status: z.enum(['pending', 'running', 'completed', 'failed']),
+		status: z.enum(['pending', 'running', 'waiting', 'completed', 'failed', 'timed_out', 'cancelled']),
 		completedAt: toOptional(z.coerce.date()),
 		parameters: z.record(z.string(), z.any()),
 		config: toOptional(z.record(z.string(), z.any())),
 		configId: toOptional(z.string()),
 		result: toOptional(z.record(z.string(), z.any())),
 		error: toOptional(z.string()),
+		checkpoint: ExecutionCheckpointSchema.nullish(),
+		parentExecutionId: z.string().nullish(),
+		threadId: z.string().nullish(),
+		// Totals of the execution's LLM calls, including those of its sub-workflows
+		usage: TokenUsageSchema.nullish(),
+		// Refreshed while a node runs, so a resume can tell a long node from an orphaned run
+		heartbeatAt: z.coerce.date().nullish(),
 	})
 ).omit({ updatedAt: true });
 export type ExecutionModel = z.infer<typeof ExecutionSchema>
 
 
+export const ThreadSchema = withTimestamps(
+	z.object({
+		id: z.string(),
+		workflowId: z.string(),
+		// Final state of the last completed execution, the initial state of the next one
+		state: z.record(z.string(), z.any()),
+		// Thread this one was forked from
+		parentThreadId: z.string().nullish(),
+		lastExecutionId: z.string().nullish(),
+	})
+);
+export type ThreadModel = z.infer<typeof ThreadSchema>
+
+
 export const NodeExecutionSchema = withTimestamps(
 	z.object({
 		id: z.string(),
 		executionId: z.string(),
 		nodeId: z.string(),
-		status: z.enum(['pending', 'running', 'completed', 'failed']),
+		status: z.enum(['pending', 'running', 'completed', 'failed', 'timed_out', 'cancelled']),
+		attempt: z.number().int().positive(),
+		// Value of the traversal's iteration counter when the node ran, which tells loop passes apart
+		iteration: z.number().int().nonnegative().nullish(),
+		// Config after template resolution, as passed to the executor, with secret values scrubbed
+		input: z.record(z.string(), z.any()).nullish(),
 		output: toOptional(z.record(z.string(), z.any())),
 		error: toOptional(z.string()),
+		// Which outgoing dynamic or switch edge target was chosen after this node
+		route: NodeRouteSchema.nullish(),
+		usage: TokenUsageSchema.nullish(),
+		// State keys changed by the node's setState rules
+		stateDiff: z.record(z.string(), z.object({ before: z.any(), after: z.any() })).nullish(),
+		durationMs: z.number().int().nonnegative().nullish(),
 		completedAt: toOptional(z.coerce.date()),
 	})
 ).omit({ updatedAt: true });
@@ -105,3 +241,15 @@ export const ConfigSchema = withTimestamps(
 );
 
 export type ConfigModel = z.infer<typeof ConfigSchema>
+
+
+export const LintIssueSchema = z.object({
+	severity: z.enum(['error', 'warning']),
+	code: z.string(),
+	message: z.string(),
+	nodeId: z.string().optional(),
+	edgeId: z.string().optional(),
+	// JSON path inside the workflow definition, e.g. `edges[2].conditions[0].node`
+	path: z.string().optional(),
+});
+export type LintIssue = z.infer<typeof LintIssueSchema>;
@@ -0,0 +1,82 @@
+import type { LintIssue } from './entities';
+import type { JsonSchemaError } from '../utils/json-schema';
+
+/**
+ * Raised when a node returns an output whose `status` is listed as retryable,
+ * e.g. an `http_request` node that received a 429.
+ */
+export class RetryableStatusError extends Error {
+	readonly name = 'RetryableStatusError';
+
+	constructor(readonly status: number, message?: string) {
+		super(message || `Received retryable status ${status}`);
+	}
+}
+
+/**
+ * Raised when a node exceeds its `timeoutMs` or a workflow exceeds its `deadlineMs`.
+ */
+export class TimeoutError extends Error {
+	readonly name = 'TimeoutError';
+}
+
+/**
+ * Raised when an execution, or the execution that started it, is cancelled.
+ */
+export class CancelledError extends Error {
+	readonly name = 'CancelledError';
+}
+
+/**
+ * Raised when the LLM calls of an execution use more tokens or cost more than its workflow's `budget`.
+ */
+export class BudgetExceededError extends Error {
+	readonly name = 'BudgetExceededError';
+}
+
+/**
+ * Raised when the traversal reaches a `wait_for_input` node that has no submitted input yet.
+ * The execution is checkpointed at that node and marked `waiting` until it is resumed.
+ */
+export class ExecutionSuspendedError extends Error {
+	readonly name = 'ExecutionSuspendedError';
+
+	constructor(readonly nodeId: string) {
+		super(`Execution is waiting for input at node '${nodeId}'`);
+	}
+}
+
+/**
+ * Raised when a workflow definition has lint errors. `issues` also carries the warnings.
+ */
+export class WorkflowValidationError extends Error {
+	readonly name = 'WorkflowValidationError';
+
+	constructor(readonly issues: LintIssue[]) {
+		const errors = issues.filter((issue) => issue.severity === 'error');
+		super(`Workflow has ${errors.length} lint error(s): ${errors.map((issue) => issue.message).join('; ')}`);
+	}
+}
+
+/**
+ * Raised when deleting a workflow that other workflows call through workflow_executor or map nodes.
+ */
+export class WorkflowInUseError extends Error {
+	readonly name = 'WorkflowInUseError';
+
+	constructor(workflowId: string, readonly dependents: string[]) {
+		super(`Workflow '${workflowId}' is called by ${dependents.map((id) => `'${id}'`).join(', ')}. Use force=true to delete it anyway`);
+	}
+}
+
+/**
+ * Raised when a value does not match its JSON Schema, e.g. execution parameters against the
+ * workflow's `parameterSchema`. `errors` has one entry per invalid field.
+ */
+export class SchemaValidationError extends Error {
+	readonly name = 'SchemaValidationError';
+
+	constructor(message: string, readonly errors: JsonSchemaError[]) {
+		super(`${message}: ${errors.map((error) => `${error.path || '(root)'}: ${error.message}`).join('; ')}`);
+	}
+}
@@ -15,6 +15,7 @@ export interface StreamEvent {
   metadata?: {
     progress?: number;
     tokensUsed?: number;
+    cost?: number;
     duration?: number;
   };
 }
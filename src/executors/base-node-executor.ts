@@ -1,6 +1,13 @@
 import { z } from 'zod';
 import { TemplateParser } from '../utils/template-parser';
 import { NodeModel } from '../domain/entities';
+import { findNodeConfigIssues } from '../utils/node-config';
+
+export interface NodeRunOptions {
+	onChunk?: (chunk: any) => void;
+	// Aborted when the node times out or the execution is stopped
+	signal?: AbortSignal;
+}
 
 export abstract class NodeExecutor {
 	protected readonly parser = new TemplateParser();
@@ -14,26 +21,37 @@ export abstract class NodeExecutor {
 
 	abstract getConfigSchema(): z.ZodObject<any>;
 
-	abstract execute(config: Record<string, any>, input: Record<string, any>): Promise<any>;
+	abstract execute(config: Record<string, any>, input: Record<string, any>, signal?: AbortSignal): Promise<any>;
 
 	async executeStreaming?(
 		config: Record<string, any>,
 		input: Record<string, any>,
-		onChunk: (chunk: any) => void
+		onChunk: (chunk: any) => void,
+		signal?: AbortSignal
 	): Promise<any> {
 		throw new Error(`${this.type} executor doesn't support streaming`);
 	}
 
-	async run(node: NodeModel, input: Record<string, any>, onChunk?: (chunk: any) => void): Promise<any> {
+	async run(node: NodeModel, input: Record<string, any>, options: NodeRunOptions = {}): Promise<any> {
 		const parsedConfig = this.parser.parse(node.config, input) as Record<string, any>;
+		this.assertValidConfig(node, parsedConfig);
 
 		if (node.streaming?.enabled === true) {
 			if (!this.supportsStreaming || !this.executeStreaming) {
 				throw new Error(`Node ${node.id} configured to stream but executor ${this.type} doesn't support it`);
 			}
-			return await this.executeStreaming(parsedConfig, input, onChunk!);
+			return await this.executeStreaming(parsedConfig, input, options.onChunk!, options.signal);
 		} else {
-			return await this.execute(parsedConfig, input);
+			return await this.execute(parsedConfig, input, options.signal);
+		}
+	}
+
+	// Runs after template resolution, so values produced by `{{...}}` expressions are checked too
+	protected assertValidConfig(node: NodeModel, config: Record<string, any>): void {
+		const issues = findNodeConfigIssues(this.getConfigSchema(), config);
+		if (issues.length > 0) {
+			const details = issues.map((issue) => `'${issue.path || 'config'}': ${issue.message}`).join('; ');
+			throw new Error(`Node '${node.id}' has invalid config for ${this.type} at ${details}`);
 		}
 	}
 }
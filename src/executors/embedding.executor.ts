@@ -2,18 +2,33 @@ import { NodeExecutor } from './base-node-executor';
 import { z } from 'zod';
 
 
+export const DEFAULT_EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+
 const EmbeddingConfigSchema = z.object({
 	text: z.union([
 		z.string(),
 		z.array(z.string())
 	]).describe('Text or array of texts to generate embeddings for. Supports {{template}} variables.'),
 	model: z.string()
-		.default('@cf/baai/bge-base-en-v1.5')
+		.default(DEFAULT_EMBEDDING_MODEL)
 		.describe('Embedding model to use. Default: @cf/baai/bge-base-en-v1.5'),
 });
 
 type EmbeddingConfig = z.infer<typeof EmbeddingConfigSchema>;
 
+// Shared with the memory node, so remembered and recalled texts use the same vector space as `embedding` nodes
+export async function embedTexts(ai: Ai, model: string, texts: string[]): Promise<{ data: number[][]; shape?: number[] }> {
+	const response = await ai.run(model as any, {
+		text: texts,
+	});
+
+	if (!response || !response.data) {
+		throw new Error('Failed to generate embeddings: Invalid response from AI model');
+	}
+
+	return response;
+}
+
 export class EmbeddingExecutor extends NodeExecutor {
 	readonly type = 'text_embedding';
 	readonly description = 'Generate text embeddings using Cloudflare Workers AI';
@@ -44,13 +59,7 @@ export class EmbeddingExecutor extends NodeExecutor {
 		const isArray = Array.isArray(text);
 		const texts = isArray ? text : [text];
 
-		const response = await this.ai.run(model as any, {
-			text: texts,
-		});
-
-		if (!response || !response.data) {
-			throw new Error('Failed to generate embeddings: Invalid response from AI model');
-		}
+		const response = await embedTexts(this.ai, model, texts);
 
 		if (isArray) {
 			return {
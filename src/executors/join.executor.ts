@@ -0,0 +1,28 @@
+import { NodeExecutor } from './base-node-executor';
+import { z } from 'zod';
+
+
+const JoinConfigSchema = z.object({
+	wait: z.number().int().positive().optional()
+		.describe('Number of branches to wait for before continuing. Defaults to all branches of the parallel edge'),
+});
+
+export class JoinExecutor extends NodeExecutor {
+	readonly type = 'join';
+	readonly description = 'Wait for parallel branches to finish and merge their outputs';
+
+	constructor(env: Env) {
+		super(env);
+	}
+
+	getConfigSchema() {
+		return JoinConfigSchema;
+	}
+
+	async execute(config: Record<string, any>, input: Record<string, any>): Promise<any> {
+		// Branch outputs are collected by the orchestrator and keyed by the first node of each branch
+		return {
+			branches: input.branches || {},
+		};
+	}
+}
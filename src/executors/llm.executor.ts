@@ -24,7 +24,7 @@ const llmConfigSchema = z.object({
 	cloudflare: z.object({
 		accountId: z.string(),
 		apiToken: z.string(),
-	})
+	}).optional().describe('Account credentials, required by the openai-sdk provider')
 });
 
 
@@ -51,7 +51,8 @@ export class LLMExecutor extends NodeExecutor {
   async executeStreaming(
     config: Record<string, any>,
     input: Record<string, any>,
-    onChunk: (chunk: any) => void
+    onChunk: (chunk: any) => void,
+    signal?: AbortSignal
   ): Promise<any> {
     const llmConfig = config as LLMConfig;
 
@@ -63,15 +64,15 @@ export class LLMExecutor extends NodeExecutor {
     const provider = llmConfig.provider || 'openai-sdk';
 
     if (provider === 'openai-sdk') {
-      return await this.executeWithOpenAIStreaming(llmConfig, parsedMessages, onChunk);
+      return await this.executeWithOpenAIStreaming(llmConfig, parsedMessages, onChunk, signal);
     } else if (provider === 'workers-ai' && this.ai) {
-      return await this.executeWithWorkersAIStreaming(llmConfig, parsedMessages, onChunk);
+      return await this.executeWithWorkersAIStreaming(llmConfig, parsedMessages, onChunk, signal);
     } else {
       throw new Error('Invalid provider or Workers AI binding not available');
     }
   }
 
-  async execute(config: Record<string, any>, input: Record<string, any>): Promise<any> {
+  async execute(config: Record<string, any>, input: Record<string, any>, signal?: AbortSignal): Promise<any> {
     const llmConfig = config as LLMConfig;
 
     if (!llmConfig.model) {
@@ -83,7 +84,7 @@ export class LLMExecutor extends NodeExecutor {
     const provider = llmConfig.provider || 'openai-sdk';
 
     if (provider === 'openai-sdk') {
-      return await this.executeWithOpenAI(llmConfig, parsedMessages);
+      return await this.executeWithOpenAI(llmConfig, parsedMessages, signal);
     } else if (provider === 'workers-ai' && this.ai) {
       return await this.executeWithWorkersAI(llmConfig, parsedMessages);
     } else {
@@ -111,9 +112,10 @@ export class LLMExecutor extends NodeExecutor {
 
   private async executeWithOpenAI(
     config: LLMConfig,
-    messages: Array<{ role: string; content: string }>
+    messages: Array<{ role: string; content: string }>,
+    signal?: AbortSignal
   ): Promise<any> {
-    if (!config.cloudflare.accountId || !config.cloudflare.apiToken) {
+    if (!config.cloudflare?.accountId || !config.cloudflare.apiToken) {
       throw new Error('OpenAI SDK requires accountId and apiToken');
     }
 
@@ -132,7 +134,7 @@ export class LLMExecutor extends NodeExecutor {
       : `workers-ai/${config.model}`;
 
     if (config.response_format) {
-      return await this.executeStructuredOutput(client, modelName, messages, config);
+      return await this.executeStructuredOutput(client, modelName, messages, config, signal);
     }
 
     const completion = await client.chat.completions.create({
@@ -140,7 +142,7 @@ export class LLMExecutor extends NodeExecutor {
       messages: messages as any,
       max_tokens: config.max_tokens || 1000,
       temperature: config.temperature,
-    });
+    }, { signal });
 
     return {
       result: completion.choices[0].message.content,
@@ -154,7 +156,8 @@ export class LLMExecutor extends NodeExecutor {
     client: OpenAI,
     modelName: string,
     messages: Array<{ role: string; content: string }>,
-    config: LLMConfig
+    config: LLMConfig,
+    signal?: AbortSignal
   ): Promise<any> {
     const responseFormat = config.response_format;
 
@@ -167,12 +170,13 @@ export class LLMExecutor extends NodeExecutor {
 			} as any,
 			max_tokens: config.max_tokens || 1000,
 			temperature: config.temperature,
-		});
+		}, { signal });
 
 		const content = completion.choices[0].message.content;
 		try {
 			return {
 				result: JSON.parse(content || '{}'),
+				usage: completion.usage,
 				model: config.model,
 			};
 		} catch (error) {
@@ -233,9 +237,10 @@ export class LLMExecutor extends NodeExecutor {
   private async executeWithOpenAIStreaming(
     config: LLMConfig,
     messages: Array<{ role: string; content: string }>,
-    onChunk: (chunk: any) => void
+    onChunk: (chunk: any) => void,
+    signal?: AbortSignal
   ): Promise<any> {
-    if (!config.cloudflare.accountId || !config.cloudflare.apiToken) {
+    if (!config.cloudflare?.accountId || !config.cloudflare.apiToken) {
       throw new Error('OpenAI SDK requires accountId and apiToken');
     }
 
@@ -259,7 +264,9 @@ export class LLMExecutor extends NodeExecutor {
       max_tokens: config.max_tokens || 1000,
       temperature: config.temperature,
       stream: true,
-    });
+      // Adds a final chunk with the token usage
+      stream_options: { include_usage: true },
+    }, { signal });
 
     let fullText = '';
     let usage: any = null;
@@ -287,7 +294,8 @@ export class LLMExecutor extends NodeExecutor {
 	private async executeWithWorkersAIStreaming(
 		config: LLMConfig,
 		messages: Array<{ role: string; content: string }>,
-		onChunk: (chunk: any) => void
+		onChunk: (chunk: any) => void,
+		signal?: AbortSignal
 	): Promise<any> {
 		if (!this.ai) {
 			throw new Error('Workers AI binding not available');
@@ -317,6 +325,13 @@ export class LLMExecutor extends NodeExecutor {
 		const decoder = new TextDecoder();
 		let buffer = '';
 		let usage = undefined
+
+		// Cancelling the reader resolves the pending read, so the loop below ends on abort
+		const onAbort = () => {
+			reader.cancel(signal?.reason).catch(() => {});
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+
 		try {
 			while (true) {
 				const { done, value } = await reader.read();
@@ -384,9 +399,12 @@ export class LLMExecutor extends NodeExecutor {
 				}
 			}
 		} finally {
+			signal?.removeEventListener('abort', onAbort);
 			reader.releaseLock();
 		}
 
+		signal?.throwIfAborted();
+
 		return {
 			result: fullText,
 			usage,
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MemoryExecutor } from './memory.executor';
+import { sha256Hex } from '../utils/helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('MemoryExecutor', () => {
+  let mockAi: any;
+  let mockIndex: any;
+  let executor: MemoryExecutor;
+
+  const match = (id: string, score: number, text: string, extra: Record<string, any> = {}) => ({
+    id,
+    score,
+    values: extra.values,
+    metadata: { text, ...(extra.rememberedAt !== undefined && { rememberedAt: extra.rememberedAt }) },
+  });
+
+  const recall = (matches: any[], config: Record<string, any> = {}) => {
+    mockIndex.query.mockResolvedValue({ matches, count: matches.length });
+    return executor.execute({ operation: 'recall', namespace: 'user-1', query: 'What do I like?', ...config }, {});
+  };
+
+  beforeEach(() => {
+    mockAi = {
+      run: vi.fn(async (_model: string, { text }: { text: string[] }) => ({ data: text.map(() => [1, 0]) })),
+    };
+    mockIndex = {
+      upsert: vi.fn().mockResolvedValue({ mutationId: 'mutation-1' }),
+      query: vi.fn(),
+    };
+
+    executor = new MemoryExecutor({ AI: mockAi, DEFAULT_VECTORIZE_INDEX: mockIndex } as any);
+  });
+
+  describe('remember', () => {
+    it('should upsert each distinct text under an id derived from the namespace and text', async () => {
+      const result = await executor.execute({
+        operation: 'remember',
+        namespace: 'user-1',
+        text: ['Likes tea', ' Likes tea ', 'Lives in Lyon'],
+      }, {});
+
+      const expectedIds = [await sha256Hex('user-1\nLikes tea'), await sha256Hex('user-1\nLives in Lyon')];
+      expect(result).toEqual({ operation: 'remember', count: 2, mutationId: 'mutation-1', ids: expectedIds });
+      expect(mockIndex.upsert).toHaveBeenCalledWith([
+        expect.objectContaining({ id: expectedIds[0], namespace: 'user-1', metadata: expect.objectContaining({ text: 'Likes tea' }) }),
+        expect.objectContaining({ id: expectedIds[1], namespace: 'user-1', metadata: expect.objectContaining({ text: 'Lives in Lyon' }) }),
+      ]);
+    });
+
+    it('should refresh a remembered text instead of adding a copy, but keep namespaces apart', async () => {
+      const first = await executor.execute({ operation: 'remember', namespace: 'user-1', text: 'Likes tea' }, {});
+      const again = await executor.execute({ operation: 'remember', namespace: 'user-1', text: 'Likes tea' }, {});
+      const other = await executor.execute({ operation: 'remember', namespace: 'user-2', text: 'Likes tea' }, {});
+
+      expect(again.ids).toEqual(first.ids);
+      expect(other.ids).not.toEqual(first.ids);
+    });
+  });
+
+  describe('recall', () => {
+    it('should rank recent memories above slightly more similar old ones', async () => {
+      const now = Date.now();
+      const matches = [
+        match('old', 0.82, 'Liked coffee', { rememberedAt: now - 60 * DAY_MS }),
+        match('new', 0.8, 'Likes tea', { rememberedAt: now }),
+      ];
+
+      const result = await recall(matches);
+
+      expect(result.memories.map((memory: any) => memory.id)).toEqual(['new', 'old']);
+      // 0.8 * similarity + 0.2 * recency, where recency halves every 30 days
+      expect(result.memories[0].score).toBeCloseTo(0.8 * 0.8 + 0.2, 3);
+      expect(result.memories[1].score).toBeCloseTo(0.8 * 0.82 + 0.2 * 0.25, 3);
+      expect(result.memories[1].similarity).toBe(0.82);
+      expect(result.text).toBe('Likes tea\nLiked coffee');
+    });
+
+    it('should rank by similarity only without recency weight', async () => {
+      const now = Date.now();
+      const matches = [
+        match('old', 0.82, 'Liked coffee', { rememberedAt: now - 60 * DAY_MS }),
+        match('new', 0.8, 'Likes tea', { rememberedAt: now }),
+      ];
+
+      const result = await recall(matches, { recencyWeight: 0 });
+
+      expect(result.memories.map((memory: any) => memory.id)).toEqual(['old', 'new']);
+    });
+
+    it('should drop memories whose vectors are near duplicates of a higher ranked one', async () => {
+      const matches = [
+        match('tea', 0.9, 'Likes tea', { values: [1, 0] }),
+        match('tea-again', 0.89, 'Really likes tea', { values: [0.99, 0.05] }),
+        match('same-text', 0.88, 'Likes tea'),
+        match('lyon', 0.7, 'Lives in Lyon', { values: [0, 1] }),
+        match('paris', 0.6, 'Works in Paris', { values: [0.2, 1] }),
+      ];
+
+      const result = await recall(matches, { topK: 2 });
+
+      // The top K is filled after de-duplication, not before
+      expect(result.memories.map((memory: any) => memory.id)).toEqual(['tea', 'lyon']);
+    });
+
+    it('should keep memories below the dedupe threshold', async () => {
+      const matches = [
+        match('tea', 0.9, 'Likes tea', { values: [1, 0] }),
+        match('tea-again', 0.89, 'Really likes tea', { values: [0.99, 0.05] }),
+      ];
+
+      const result = await recall(matches, { dedupeThreshold: 1 });
+
+      expect(result.memories.map((memory: any) => memory.id)).toEqual(['tea', 'tea-again']);
+    });
+
+    it('should cut memories off by their similarity, before recency is blended in', async () => {
+      const matches = [
+        match('similar', 0.65, 'Likes tea'),
+        // Its blended score would clear the cutoff, its similarity does not
+        match('recent', 0.55, 'Lives in Lyon', { rememberedAt: Date.now() }),
+      ];
+
+      const result = await recall(matches, { minSimilarity: 0.6 });
+
+      expect(result.memories.map((memory: any) => memory.id)).toEqual(['similar']);
+      expect(result.memories[0].rememberedAt).toBeNull();
+    });
+  });
+});
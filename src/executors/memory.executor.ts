@@ -0,0 +1,206 @@
+import { NodeExecutor } from './base-node-executor';
+import { DEFAULT_EMBEDDING_MODEL, embedTexts } from './embedding.executor';
+import { getVectorizeIndex } from './vectorize.executor';
+import { sha256Hex } from '../utils/helpers';
+import { z } from 'zod';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Vectorize caps topK at 20 when values and all metadata are returned
+const MAX_CANDIDATES = 20;
+
+const MemoryConfigSchema = z.object({
+	operation: z.enum(['remember', 'recall']).describe('remember stores texts, recall returns the memories closest to a query'),
+	indexBinding: z.string().default('DEFAULT_VECTORIZE_INDEX').describe('Name of the Vectorize binding (e.g., VECTORIZE_INDEX)'),
+	model: z.string()
+		.default(DEFAULT_EMBEDDING_MODEL)
+		.describe('Embedding model to use. Must match the dimensions of the index. Default: @cf/baai/bge-base-en-v1.5'),
+	namespace: z.string().min(1).max(64)
+		.describe('Whose memories these are, e.g. {{parameters.userId}} or a thread id. Supports {{template}} variables.'),
+
+	text: z.union([z.string(), z.array(z.string())]).optional()
+		.describe('Text or array of texts to remember. Supports {{template}} variables.'),
+	metadata: z.record(z.string(), z.any()).optional()
+		.describe('Metadata stored with remembered texts and returned on recall'),
+
+	query: z.string().optional()
+		.describe('Text to recall memories for. Supports {{template}} variables.'),
+	topK: z.number().int().positive().max(MAX_CANDIDATES).optional().default(5)
+		.describe('Number of memories to return (max 20)'),
+	minSimilarity: z.number().min(-1).max(1).optional()
+		.describe('Skip memories less similar to the query than this'),
+	recencyWeight: z.number().min(0).max(1).optional().default(0.2)
+		.describe('Share of the score given to recency instead of similarity (0 ranks by similarity only)'),
+	recencyHalfLifeDays: z.number().positive().optional().default(30)
+		.describe('Age in days at which the recency part of the score halves'),
+	dedupeThreshold: z.number().min(0).max(1).optional().default(0.95)
+		.describe('Memories at least this similar to a higher ranked one are dropped'),
+	filter: z.record(z.string(), z.any()).optional()
+		.describe('Metadata filter for recall. Supports $eq, $ne, $in, $nin, $lt, $lte, $gt, $gte operators'),
+});
+
+type MemoryConfig = z.infer<typeof MemoryConfigSchema>;
+
+interface Memory {
+	id: string;
+	text: string;
+	// Similarity blended with recency, used for ranking
+	score: number;
+	similarity: number;
+	rememberedAt: string | null;
+	metadata: Record<string, any>;
+}
+
+export class MemoryExecutor extends NodeExecutor {
+	readonly type = 'memory';
+	readonly description = 'Remember texts and recall the most relevant ones later, using Workers AI embeddings and Cloudflare Vectorize';
+
+	private readonly ai: Ai;
+
+	constructor(env: Env) {
+		super(env);
+
+		if (!env.AI) {
+			throw new Error('AI binding not available. Make sure Workers AI is configured in wrangler.toml');
+		}
+
+		this.ai = env.AI;
+	}
+
+	getConfigSchema() {
+		return MemoryConfigSchema;
+	}
+
+	async execute(config: Record<string, any>, input: Record<string, any>): Promise<any> {
+		// `run` only validates the config, parsing fills in the defaults
+		const memoryConfig = MemoryConfigSchema.parse(config);
+		const index = getVectorizeIndex(this.env, memoryConfig.indexBinding);
+
+		switch (memoryConfig.operation) {
+			case 'remember':
+				return await this.handleRemember(index, memoryConfig);
+
+			case 'recall':
+				return await this.handleRecall(index, memoryConfig);
+
+			default:
+				throw new Error(`Unknown memory operation: ${memoryConfig.operation}`);
+		}
+	}
+
+	private async handleRemember(index: VectorizeIndex, config: MemoryConfig): Promise<any> {
+		const texts = [...new Set((Array.isArray(config.text) ? config.text : [config.text ?? '']).map((text) => text.trim()))]
+			.filter((text) => text.length > 0);
+
+		if (texts.length === 0) {
+			throw new Error('Remember operation requires text');
+		}
+
+		const { data } = await embedTexts(this.ai, config.model, texts);
+		const rememberedAt = Date.now();
+
+		// Ids derive from the namespace and text, so remembering the same text again refreshes it instead of adding a copy
+		const vectors = await Promise.all(
+			texts.map(async (text, i) => ({
+				id: await sha256Hex(`${config.namespace}\n${text}`),
+				values: data[i],
+				namespace: config.namespace,
+				metadata: { ...config.metadata, text, rememberedAt },
+			}))
+		);
+
+		const result = await index.upsert(vectors);
+		return {
+			operation: 'remember',
+			count: vectors.length,
+			mutationId: (result as any).mutationId,
+			ids: vectors.map((vector) => vector.id),
+		};
+	}
+
+	private async handleRecall(index: VectorizeIndex, config: MemoryConfig): Promise<any> {
+		if (!config.query) {
+			throw new Error('Recall operation requires query');
+		}
+
+		const { data } = await embedTexts(this.ai, config.model, [config.query]);
+
+		// Fetch more candidates than needed, since re-ranking and de-duplication change the top K
+		const result = await index.query(data[0], {
+			topK: Math.min(MAX_CANDIDATES, config.topK * 3),
+			namespace: config.namespace,
+			returnValues: true,
+			returnMetadata: 'all',
+			...(config.filter && { filter: config.filter }),
+		});
+
+		const memories = rankMemories(result.matches, config, Date.now());
+
+		return {
+			operation: 'recall',
+			count: memories.length,
+			memories,
+			// Ready to drop into a prompt
+			text: memories.map((memory) => memory.text).join('\n'),
+		};
+	}
+}
+
+function rankMemories(
+	matches: VectorizeMatch[],
+	config: Pick<MemoryConfig, 'topK' | 'minSimilarity' | 'recencyWeight' | 'recencyHalfLifeDays' | 'dedupeThreshold'>,
+	now: number
+): Memory[] {
+	const candidates = matches
+		.filter((match) => config.minSimilarity === undefined || match.score >= config.minSimilarity)
+		.map((match) => {
+			const { text, rememberedAt, ...metadata } = (match.metadata ?? {}) as Record<string, any>;
+			const ageDays = typeof rememberedAt === 'number' ? Math.max(0, now - rememberedAt) / DAY_MS : null;
+			// Memories without a timestamp get no recency boost
+			const recency = ageDays === null ? 0 : Math.pow(0.5, ageDays / config.recencyHalfLifeDays);
+
+			return {
+				values: match.values ? Array.from(match.values as ArrayLike<number>) : null,
+				memory: {
+					id: match.id,
+					text: typeof text === 'string' ? text : '',
+					score: (1 - config.recencyWeight) * match.score + config.recencyWeight * recency,
+					similarity: match.score,
+					rememberedAt: typeof rememberedAt === 'number' ? new Date(rememberedAt).toISOString() : null,
+					metadata,
+				},
+			};
+		})
+		.sort((a, b) => b.memory.score - a.memory.score);
+
+	const kept: typeof candidates = [];
+	for (const candidate of candidates) {
+		if (kept.length === config.topK) {
+			break;
+		}
+
+		const isDuplicate = kept.some((other) =>
+			other.memory.text === candidate.memory.text ||
+			(candidate.values !== null && other.values !== null &&
+				cosineSimilarity(candidate.values, other.values) >= config.dedupeThreshold)
+		);
+
+		if (!isDuplicate) {
+			kept.push(candidate);
+		}
+	}
+
+	return kept.map((candidate) => candidate.memory);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
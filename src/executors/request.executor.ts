@@ -25,7 +25,7 @@ export class RequestExecutor extends NodeExecutor {
     return httpRequestConfigSchema;
   }
 
-  async execute(config: Record<string, any>, input: Record<string, any>): Promise<any> {
+  async execute(config: Record<string, any>, input: Record<string, any>, signal?: AbortSignal): Promise<any> {
     const { url, method = 'GET', headers = {}, body } = config as HttpRequestConfig;
 
     if (!url) {
@@ -37,6 +37,7 @@ export class RequestExecutor extends NodeExecutor {
     const requestInit: RequestInit = {
       method: method.toUpperCase(),
       headers: headers,
+      signal,
     };
 
     if (body && method.toUpperCase() !== 'GET' && method.toUpperCase() !== 'HEAD') {
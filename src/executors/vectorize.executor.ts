@@ -45,6 +45,18 @@ const VectorizeConfigSchema = z.object({
 
 type VectorizeConfig = z.infer<typeof VectorizeConfigSchema>;
 
+// Indexes are bound per worker, and nodes pick one by binding name
+export function getVectorizeIndex(env: Env, indexBinding: string): VectorizeIndex {
+  const index = (env as any)[indexBinding];
+  if (!index) {
+    throw new Error(
+      `Vectorize binding '${indexBinding}' not found. ` +
+      `Make sure the binding is configured in your wrangler.toml`
+    );
+  }
+  return index;
+}
+
 export class VectorizeExecutor extends NodeExecutor {
   readonly type = 'vectorize';
   readonly description = 'Perform vector database operations using Cloudflare Vectorize';
@@ -72,13 +84,7 @@ export class VectorizeExecutor extends NodeExecutor {
       ids,
     } = config as VectorizeConfig;
 
-    const index = (this.env as any)[indexBinding];
-    if (!index) {
-      throw new Error(
-        `Vectorize binding '${indexBinding}' not found. ` +
-        `Make sure the binding is configured in your wrangler.toml`
-      );
-    }
+    const index = getVectorizeIndex(this.env, indexBinding);
 
     switch (operation) {
       case 'insert':
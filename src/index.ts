@@ -4,13 +4,18 @@ import { WorkflowRepository } from './repositories/workflow.repository';
 import { ExecutionRepository } from './repositories/execution.repository';
 import { NodeExecutionRepository } from './repositories/node-execution.repository';
 import { ConfigRepository } from './repositories/config.repository';
+import { ThreadRepository } from './repositories/thread.repository';
 import { WorkflowService } from './services/workflow.service';
 import { ExecutionService } from './services/execution.service';
 import { ConfigService } from './services/config.service';
+import { ExecutorService } from './services/executor.service';
+import { ThreadService } from './services/thread.service';
 import { WorkflowOrchestrator } from './orchestration/workflow-orchestrator';
 import { NodeExecutorFactory } from './orchestration/node-executor.factory';
 import { workflowRoutes } from './routes/workflows.routes';
 import { configRoutes } from './routes/configs.routes';
+import { executorRoutes } from './routes/executors.routes';
+import { threadRoutes } from './routes/threads.routes';
 import {
 	ExecutionStatelessRepository,
 	NodeExecutionStatelessRepository,
@@ -22,6 +27,8 @@ type Variables = {
   workflowService: WorkflowService;
   executionService: ExecutionService;
   configService: ConfigService;
+  executorService: ExecutorService;
+  threadService: ThreadService;
 	executionStatelessService: ExecutionService;
 	workflowStatelessService: WorkflowService;
 };
@@ -46,36 +53,42 @@ app.use('*', async (c, next) => {
   const executionRepo = new ExecutionRepository(db);
   const nodeExecRepo = new NodeExecutionRepository(db);
   const configRepo = new ConfigRepository(db);
+  const threadRepo = new ThreadRepository(db);
 
 	const executionStatelessRepo = new ExecutionStatelessRepository(c)
 	const nodeExecutionStatelessRepo = new NodeExecutionStatelessRepository(c)
 	const workflowStatelessRepo = new WorkflowStatelessRepository(c)
 
-  const configService = new ConfigService(configRepo, kv);
-	const workflowService = new WorkflowService(workflowRepo);
-	const workflowStatelessService = new WorkflowService(workflowStatelessRepo as any);
-
+  const configService = new ConfigService(configRepo, kv, c.env.CONFIG_ENCRYPTION_KEY);
   const nodeExecutorFactory = new NodeExecutorFactory(c.env);
+	const workflowService = new WorkflowService(workflowRepo, configService, nodeExecutorFactory);
+	const workflowStatelessService = new WorkflowService(workflowStatelessRepo as any, configService, nodeExecutorFactory);
+
   const orchestrator = new WorkflowOrchestrator(
 		nodeExecRepo,
 		executionRepo,
 		nodeExecutorFactory,
 		workflowService,
+		threadRepo,
   );
 
 	const statelessOrchestrator = new WorkflowOrchestrator(
-		executionStatelessRepo as any,
 		nodeExecutionStatelessRepo as any,
+		executionStatelessRepo as any,
 		nodeExecutorFactory,
 		workflowStatelessService as any,
 	);
 
+  const threadService = new ThreadService(threadRepo, executionRepo);
+
   const executionService = new ExecutionService(
     executionRepo,
     nodeExecRepo,
     workflowRepo,
     orchestrator,
-    configService
+    configService,
+    c.env.CALLBACK_SIGNING_SECRET,
+    threadService
   );
 
 	const executionStatelessService = new ExecutionService(
@@ -89,6 +102,8 @@ app.use('*', async (c, next) => {
   c.set('workflowService', workflowService);
   c.set('executionService', executionService);
   c.set('configService', configService);
+  c.set('executorService', new ExecutorService(nodeExecutorFactory));
+  c.set('threadService', threadService);
 
 	c.set('executionStatelessService', executionStatelessService)
 	c.set('workflowStatelessService', workflowStatelessService)
@@ -105,8 +120,18 @@ const configRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
 configRouter.use('*', (c, next) => next());
 configRouter.route('/', configRoutes());
 
+const executorRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+executorRouter.use('*', (c, next) => next());
+executorRouter.route('/', executorRoutes());
+
+const threadRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+threadRouter.use('*', (c, next) => next());
+threadRouter.route('/', threadRoutes());
+
 app.route('/api/workflows', workflowRouter);
 app.route('/api/configs', configRouter);
+app.route('/api/executors', executorRouter);
+app.route('/api/threads', threadRouter);
 
 // 404 handler
 app.notFound((c) => {
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+export interface ControlNodeDefinition {
+	type: string;
+	description: string;
+	configSchema: z.ZodObject<any>;
+}
+
+/**
+ * Node types run by the orchestrator itself rather than by a registered executor.
+ * Their schemas document the config for clients; the orchestrator checks it when the node runs.
+ */
+export const CONTROL_NODES: ControlNodeDefinition[] = [
+	{
+		type: 'workflow_executor',
+		description: 'Run another workflow as a sub-workflow and use its result as output',
+		configSchema: z.object({
+			workflow_id: z.string().min(1).describe('ID of the workflow to run. Supports {{template}} variables.'),
+			parameters: z.record(z.string(), z.any())
+				.describe('Parameters passed to the sub-workflow. Supports {{template}} variables.'),
+		}),
+	},
+	{
+		type: 'map',
+		description: 'Run a sub-workflow or an inline chain of nodes once per item of an array',
+		configSchema: z.object({
+			items: z.any().describe('Array to iterate over, usually a {{template}} such as {{parent.fetch.items}}'),
+			concurrency: z.number().int().positive().default(1).describe('Number of items processed at the same time'),
+			workflow_id: z.string().min(1).optional().describe('Workflow to run for each item. Exclusive with nodes.'),
+			parameters: z.record(z.string(), z.any()).optional()
+				.describe('Sub-workflow parameters. Defaults to { "item": "{{item}}" }'),
+			nodes: z.array(z.record(z.string(), z.any())).optional()
+				.describe('Inline chain of nodes run in order for each item. Exclusive with workflow_id.'),
+		}),
+	},
+	{
+		type: 'wait_for_input',
+		description: 'Pause the execution until input is submitted through the resume endpoint',
+		configSchema: z.object({
+			schema: z.record(z.string(), z.any()).optional().describe('JSON Schema the submitted input is validated against'),
+		}),
+	},
+];
+
+export const CONTROL_NODE_TYPES = new Set(CONTROL_NODES.map((node) => node.type));
@@ -0,0 +1,48 @@
+import { CancelledError } from '../domain/errors';
+
+// Executions running in this isolate. Cancel requests handled by another isolate are
+// picked up by the orchestrator through the `cancelled` status before each node instead.
+const running = new Map<string, AbortController>();
+
+/**
+ * Registers an execution so it can be cancelled while it runs. The returned signal also
+ * aborts when `parent` aborts; call `release` once the execution has finished.
+ */
+export function trackExecution(
+	executionId: string,
+	parent?: AbortSignal
+): { signal: AbortSignal; release: () => void } {
+	const controller = new AbortController();
+	const onParentAbort = () => controller.abort(parent!.reason);
+
+	if (parent?.aborted) {
+		controller.abort(parent.reason);
+	} else {
+		parent?.addEventListener('abort', onParentAbort, { once: true });
+	}
+
+	running.set(executionId, controller);
+
+	return {
+		signal: controller.signal,
+		release: () => {
+			if (running.get(executionId) === controller) {
+				running.delete(executionId);
+			}
+			parent?.removeEventListener('abort', onParentAbort);
+		},
+	};
+}
+
+/**
+ * Aborts the execution if it runs in this isolate. Returns false when it is not tracked here.
+ */
+export function abortExecution(executionId: string): boolean {
+	const controller = running.get(executionId);
+	if (!controller) {
+		return false;
+	}
+
+	controller.abort(new CancelledError(`Execution '${executionId}' was cancelled`));
+	return true;
+}
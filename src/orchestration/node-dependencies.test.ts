@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { findDataDependencies } from './node-dependencies';
+import type { NodeModel } from '../domain/entities';
+
+describe('findDataDependencies', () => {
+  const node = (id: string, config: Record<string, any>, extra: Partial<NodeModel> = {}): NodeModel => ({
+    id,
+    type: 'data_transformer',
+    config,
+    ...extra,
+  });
+
+  it('should depend on the earlier nodes referenced through parent', () => {
+    const dependencies = findDataDependencies([
+      node('fetch', { url: '{{parameters.url}}' }),
+      node('embed', { text: '{{parameters.query}}' }),
+      node('answer', { prompt: 'Context: {{parent.fetch.body}}', vector: '{{parent.embed.embedding}}' }),
+      node('later', { text: '{{parent.answer.result}}' }),
+    ]);
+
+    expect(Object.fromEntries(dependencies)).toEqual({
+      fetch: [],
+      embed: [],
+      answer: ['fetch', 'embed'],
+      later: ['answer'],
+    });
+  });
+
+  it('should wait for every earlier node when a template reads parent as a whole or cannot be parsed', () => {
+    const dependencies = findDataDependencies([
+      node('a', {}),
+      node('b', {}),
+      node('all', { template: { everything: '{{parent}}' } }),
+      node('broken', { text: '{{parent.}}' }),
+    ]);
+
+    expect(dependencies.get('all')).toEqual(['a', 'b']);
+    expect(dependencies.get('broken')).toEqual(['a', 'b', 'all']);
+  });
+
+  it('should order nodes that read and write state', () => {
+    const dependencies = findDataDependencies([
+      node('count', {}, { setState: [{ key: 'count', template: '{{(state.count || 0) + 1}}' }] }),
+      node('independent', { text: '{{parameters.query}}' }),
+      node('report', { text: 'Count: {{state.count}}' }),
+      node('read_only', { text: '{{state.count}}' }),
+    ]);
+
+    expect(dependencies.get('independent')).toEqual([]);
+    expect(dependencies.get('report')).toEqual(['count']);
+    // Two readers do not need to wait for each other
+    expect(dependencies.get('read_only')).toEqual(['count']);
+  });
+});
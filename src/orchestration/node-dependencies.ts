@@ -0,0 +1,95 @@
+import type { NodeModel } from '../domain/entities';
+import { TemplateParser } from '../utils/template-parser';
+
+interface NodeReferences {
+	// Nodes read as `parent.<id>`
+	parents: Set<string>;
+	// The node reads `parent` as a whole, or something the expressions do not reveal
+	readsAllParents: boolean;
+	readsState: boolean;
+	writesState: boolean;
+}
+
+/**
+ * Maps each node to the earlier nodes of `nodes` it has to wait for when they run concurrently:
+ * the nodes it reads through `{{parent.<id>}}` in its config or `setState` templates, and, when
+ * either of them writes state, the earlier nodes that read or write state, so state changes keep
+ * the order of `nodes`. Expressions that cannot be analysed make the node wait for every earlier node.
+ */
+export function findDataDependencies(nodes: NodeModel[]): Map<string, string[]> {
+	const parser = new TemplateParser();
+	const references = nodes.map((node) => findNodeReferences(node, parser));
+	const dependencies = new Map<string, string[]>();
+
+	nodes.forEach((node, index) => {
+		const own = references[index];
+		const touchesState = own.readsState || own.writesState;
+
+		const waitsFor = nodes.slice(0, index).filter((earlier, earlierIndex) => {
+			const other = references[earlierIndex];
+			if (own.readsAllParents || own.parents.has(earlier.id)) {
+				return true;
+			}
+			return touchesState && (other.readsState || other.writesState) && (own.writesState || other.writesState);
+		});
+
+		dependencies.set(node.id, waitsFor.map((earlier) => earlier.id));
+	});
+
+	return dependencies;
+}
+
+function findNodeReferences(node: NodeModel, parser: TemplateParser): NodeReferences {
+	const references: NodeReferences = {
+		parents: new Set(),
+		readsAllParents: false,
+		readsState: false,
+		writesState: (node.setState?.length ?? 0) > 0,
+	};
+
+	const templates = [node.config, ...(node.setState ?? []).map((rule) => rule.template)];
+
+	forEachString(templates, (value) => {
+		for (const expression of parser.expressions(value)) {
+			let variables: string[];
+			try {
+				variables = parser.variables(expression);
+			} catch {
+				variables = [];
+				references.readsAllParents = true;
+				references.readsState = true;
+			}
+
+			// `eval` evaluates an expression built at runtime, so its references are unknown
+			if (/\beval\s*\(/.test(expression)) {
+				references.readsAllParents = true;
+				references.readsState = true;
+			}
+
+			for (const variable of variables) {
+				const [root, key] = variable.split('.');
+				if (root === 'parent') {
+					if (key) {
+						references.parents.add(key);
+					} else {
+						references.readsAllParents = true;
+					}
+				} else if (root === 'state') {
+					references.readsState = true;
+				}
+			}
+		}
+	});
+
+	return references;
+}
+
+function forEachString(value: any, visit: (value: string) => void): void {
+	if (typeof value === 'string') {
+		visit(value);
+	} else if (Array.isArray(value)) {
+		value.forEach((item) => forEachString(item, visit));
+	} else if (typeof value === 'object' && value !== null) {
+		Object.values(value).forEach((item) => forEachString(item, visit));
+	}
+}
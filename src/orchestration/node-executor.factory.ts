@@ -5,6 +5,8 @@ import { RequestExecutor } from '../executors/request.executor';
 import { LLMExecutor } from '../executors/llm.executor';
 import { VectorizeExecutor } from '../executors/vectorize.executor';
 import { EmbeddingExecutor } from '../executors/embedding.executor';
+import { JoinExecutor } from '../executors/join.executor';
+import { MemoryExecutor } from '../executors/memory.executor';
 
 
 
@@ -27,6 +29,11 @@ export class NodeExecutorFactory {
 		return this.executors.get(nodeType)!;
   }
 
+	// Keyed by the node type used in workflow definitions, which may differ from `executor.type`
+	listExecutors(): Array<[string, NodeExecutor]> {
+		return Array.from(this.executors.entries());
+	}
+
   private registerBuiltinExecutors(): void {
     this.executors.set('data_transformer', new DataTransformerExecutor(this.env));
     this.executors.set('sql_query', new SQLExecutor(this.env));
@@ -34,5 +41,7 @@ export class NodeExecutorFactory {
     this.executors.set('llm', new LLMExecutor(this.env));
     this.executors.set('vectorize', new VectorizeExecutor(this.env));
 		this.executors.set('embedding', new EmbeddingExecutor(this.env));
+		this.executors.set('join', new JoinExecutor(this.env));
+		this.executors.set('memory', new MemoryExecutor(this.env));
   }
 }
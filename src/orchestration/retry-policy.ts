@@ -0,0 +1,41 @@
+import type { NodeRetryPolicy } from '../domain/entities';
+
+export function getRetryDelay(policy: NodeRetryPolicy, attempt: number): number {
+	const { initialDelayMs = 500, backoffMultiplier = 2, maxDelayMs = 30000, jitter = true } = policy;
+	const delay = Math.min(maxDelayMs, initialDelayMs * Math.pow(backoffMultiplier, attempt - 1));
+
+	if (!jitter) {
+		return delay;
+	}
+
+	// Equal jitter: keep half of the delay and randomise the rest
+	return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Without `retryOn` every error is retried. Otherwise an error is retried when its
+ * name matches `retryOn.errors` or its HTTP status matches `retryOn.statuses`.
+ */
+export function isRetryableError(error: any, policy: NodeRetryPolicy): boolean {
+	if (!policy.retryOn) {
+		return true;
+	}
+
+	const { errors = [], statuses = [] } = policy.retryOn;
+
+	const names = [error?.name, error?.constructor?.name].filter(Boolean);
+	if (names.some((name) => errors.includes(name))) {
+		return true;
+	}
+
+	return typeof error?.status === 'number' && statuses.includes(error.status);
+}
+
+export function getRetryableStatus(output: any, policy: NodeRetryPolicy): number | null {
+	const statuses = policy.retryOn?.statuses;
+	if (!statuses || typeof output?.status !== 'number') {
+		return null;
+	}
+
+	return statuses.includes(output.status) ? output.status : null;
+}
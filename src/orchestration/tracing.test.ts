@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseTraceparent, Tracer } from './tracing';
+
+describe('tracing', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should parse valid traceparent headers and reject invalid ones', () => {
+    expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      sampled: true,
+    });
+    expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00')?.sampled).toBe(false);
+
+    expect(parseTraceparent(undefined)).toBeNull();
+    expect(parseTraceparent('not-a-traceparent')).toBeNull();
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+    expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeNull();
+  });
+
+  it('should only trace when an endpoint is configured and the caller samples the trace', () => {
+    const unsampled = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00');
+
+    expect(Tracer.fromConfig({})).toBeNull();
+    expect(Tracer.fromConfig({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318' }, unsampled)).toBeNull();
+    expect(Tracer.fromConfig({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318' })?.traceId).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('should export spans as OTLP JSON with the configured headers', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const tracer = Tracer.fromConfig({
+      OTEL_EXPORTER_OTLP_ENDPOINT: 'https://collector.example.com/v1/traces',
+      OTEL_EXPORTER_OTLP_HEADERS: 'x-api-key=abc=123, x-team=ai',
+      OTEL_SERVICE_NAME: 'support-bot',
+    })!;
+
+    const root = tracer.startSpan('workflow Support', undefined, { 'workflow.id': 'workflow-1', skipped: undefined });
+    const child = tracer.startSpan('node answer', root.spanId, { 'node.attempt': 2, 'node.cost': 0.5, streamed: true });
+    child.end(new TypeError('Bad input'));
+    root.end();
+
+    await tracer.flush();
+    // Spans are only sent once
+    await tracer.flush();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const [url, request] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://collector.example.com/v1/traces');
+    expect(request.headers).toEqual({ 'Content-Type': 'application/json', 'x-api-key': 'abc=123', 'x-team': 'ai' });
+
+    const { resource, scopeSpans } = JSON.parse(request.body as string).resourceSpans[0];
+    expect(resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'support-bot' } }]);
+
+    const [rootSpan, childSpan] = scopeSpans[0].spans;
+    expect(rootSpan).toEqual(expect.objectContaining({
+      traceId: tracer.traceId,
+      name: 'workflow Support',
+      attributes: [{ key: 'workflow.id', value: { stringValue: 'workflow-1' } }],
+      status: { code: 1 },
+    }));
+    expect(rootSpan.parentSpanId).toBeUndefined();
+    expect(childSpan).toEqual(expect.objectContaining({
+      parentSpanId: root.spanId,
+      attributes: [
+        { key: 'node.attempt', value: { intValue: '2' } },
+        { key: 'node.cost', value: { doubleValue: 0.5 } },
+        { key: 'streamed', value: { boolValue: true } },
+        { key: 'error.type', value: { stringValue: 'TypeError' } },
+      ],
+      status: { code: 2, message: 'Bad input' },
+    }));
+  });
+
+  it('should log export failures instead of throwing', async () => {
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const tracer = new Tracer('http://localhost:4318');
+    tracer.startSpan('workflow Support').end();
+
+    await expect(tracer.flush()).resolves.toBeUndefined();
+    expect(consoleSpy).toHaveBeenCalledWith('Trace export to http://localhost:4318/v1/traces failed:', expect.any(Error));
+  });
+});
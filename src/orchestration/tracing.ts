@@ -0,0 +1,231 @@
+/**
+ * Minimal OpenTelemetry tracing: spans are collected in memory while an execution runs and
+ * exported once at the end as OTLP/HTTP JSON, so the Worker needs no SDK.
+ */
+
+export interface TraceContext {
+	traceId: string;
+	// Span of the caller, the parent of the execution's root span
+	spanId: string;
+	sampled: boolean;
+}
+
+// Where new spans attach: the tracer of the top-level execution and the span to nest under
+export interface SpanParent {
+	tracer: Tracer;
+	spanId?: string;
+}
+
+export type SpanAttributes = Record<string, string | number | boolean | null | undefined>;
+
+interface SpanData {
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	name: string;
+	startTimeUnixNano: string;
+	endTimeUnixNano?: string;
+	attributes: SpanAttributes;
+	status: { code: 0 | 1 | 2; message?: string };
+}
+
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+const SPAN_KIND_INTERNAL = 1;
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Parses a W3C `traceparent` header, e.g. `00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`.
+ * Returns null for missing or invalid headers, so the execution starts a new trace.
+ */
+export function parseTraceparent(header: string | null | undefined): TraceContext | null {
+	const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+	if (!match) {
+		return null;
+	}
+
+	const [, version, traceId, spanId, flags] = match;
+	if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+		return null;
+	}
+
+	return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Starts a span under `parent`, or returns undefined when the execution is not traced.
+ */
+export function startSpan(parent: SpanParent | undefined, name: string, attributes?: SpanAttributes): Span | undefined {
+	return parent?.tracer.startSpan(name, parent.spanId, attributes);
+}
+
+export class Span {
+	constructor(private readonly tracer: Tracer, private readonly data: SpanData) {}
+
+	get spanId(): string {
+		return this.data.spanId;
+	}
+
+	asParent(): SpanParent {
+		return { tracer: this.tracer, spanId: this.data.spanId };
+	}
+
+	setAttributes(attributes: SpanAttributes): void {
+		Object.assign(this.data.attributes, attributes);
+	}
+
+	end(error?: any): void {
+		if (this.data.endTimeUnixNano) {
+			return;
+		}
+
+		this.data.endTimeUnixNano = toUnixNano(Date.now());
+		this.data.status = error
+			? { code: SPAN_STATUS_ERROR, message: error.message ?? String(error) }
+			: { code: SPAN_STATUS_OK };
+
+		if (error) {
+			this.data.attributes['error.type'] = error.name ?? 'Error';
+		}
+	}
+}
+
+/**
+ * Collects the spans of one top-level execution, including those of its sub-workflows.
+ * Configured with the `OTEL_EXPORTER_OTLP_ENDPOINT` config variable, e.g. `http://localhost:4318`,
+ * and optionally `OTEL_EXPORTER_OTLP_HEADERS` (object or `key=value,...`) and `OTEL_SERVICE_NAME`.
+ */
+export class Tracer {
+	private readonly spans: SpanData[] = [];
+
+	constructor(
+		private readonly endpoint: string,
+		readonly traceId: string = randomHex(16),
+		private readonly headers: Record<string, string> = {},
+		private readonly serviceName: string = 'agent-builder'
+	) {}
+
+	/**
+	 * Returns null when the config has no exporter endpoint, or the caller's trace is not sampled.
+	 */
+	static fromConfig(config: Record<string, any> | null | undefined, parent?: TraceContext | null): Tracer | null {
+		const endpoint = config?.OTEL_EXPORTER_OTLP_ENDPOINT;
+		if (typeof endpoint !== 'string' || !endpoint || parent?.sampled === false) {
+			return null;
+		}
+
+		return new Tracer(
+			endpoint,
+			parent?.traceId,
+			parseHeaders(config?.OTEL_EXPORTER_OTLP_HEADERS),
+			typeof config?.OTEL_SERVICE_NAME === 'string' ? config.OTEL_SERVICE_NAME : undefined
+		);
+	}
+
+	startSpan(name: string, parentSpanId?: string, attributes: SpanAttributes = {}): Span {
+		const data: SpanData = {
+			traceId: this.traceId,
+			spanId: randomHex(8),
+			parentSpanId,
+			name,
+			startTimeUnixNano: toUnixNano(Date.now()),
+			attributes: { ...attributes },
+			status: { code: 0 },
+		};
+		this.spans.push(data);
+		return new Span(this, data);
+	}
+
+	/**
+	 * Sends the collected spans to the collector. Export failures are logged, never thrown,
+	 * so a missing collector cannot fail an execution.
+	 */
+	async flush(): Promise<void> {
+		if (this.spans.length === 0) {
+			return;
+		}
+
+		const spans = this.spans.splice(0);
+		const url = this.endpoint.replace(/\/+$/, '').endsWith('/v1/traces')
+			? this.endpoint
+			: `${this.endpoint.replace(/\/+$/, '')}/v1/traces`;
+
+		try {
+			const response = await fetch(url, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', ...this.headers },
+				body: JSON.stringify(this.toOtlp(spans)),
+			});
+
+			if (!response.ok) {
+				console.error(`Trace export to ${url} responded with status ${response.status}`);
+			}
+		} catch (error: any) {
+			console.error(`Trace export to ${url} failed:`, error);
+		}
+	}
+
+	private toOtlp(spans: SpanData[]): Record<string, any> {
+		return {
+			resourceSpans: [{
+				resource: { attributes: toOtlpAttributes({ 'service.name': this.serviceName }) },
+				scopeSpans: [{
+					scope: { name: 'agent-builder' },
+					spans: spans.map((span) => ({
+						traceId: span.traceId,
+						spanId: span.spanId,
+						...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+						name: span.name,
+						kind: SPAN_KIND_INTERNAL,
+						startTimeUnixNano: span.startTimeUnixNano,
+						// Spans still open when the execution stopped, e.g. abandoned parallel branches
+						endTimeUnixNano: span.endTimeUnixNano ?? toUnixNano(Date.now()),
+						attributes: toOtlpAttributes(span.attributes),
+						status: span.status,
+					})),
+				}],
+			}],
+		};
+	}
+}
+
+function toOtlpAttributes(attributes: SpanAttributes): Array<{ key: string; value: Record<string, any> }> {
+	return Object.entries(attributes)
+		.filter(([, value]) => value !== null && value !== undefined)
+		.map(([key, value]) => {
+			if (typeof value === 'boolean') {
+				return { key, value: { boolValue: value } };
+			}
+			if (typeof value === 'number') {
+				// int64 values are encoded as strings in OTLP JSON
+				return { key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } };
+			}
+			return { key, value: { stringValue: String(value) } };
+		});
+}
+
+function parseHeaders(headers: unknown): Record<string, string> {
+	if (typeof headers === 'object' && headers !== null) {
+		return Object.fromEntries(Object.entries(headers).map(([key, value]) => [key, String(value)]));
+	}
+
+	if (typeof headers === 'string') {
+		return Object.fromEntries(
+			headers.split(',')
+				.map((pair) => pair.split('=').map((part) => part.trim()))
+				.filter(([key, value]) => key && value !== undefined)
+				.map(([key, ...value]) => [key, value.join('=')])
+		);
+	}
+
+	return {};
+}
+
+function toUnixNano(ms: number): string {
+	return `${ms}000000`;
+}
+
+function randomHex(bytes: number): string {
+	return [...crypto.getRandomValues(new Uint8Array(bytes))].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,127 @@
+import type { TokenUsage, WorkflowBudget } from '../domain/entities';
+import { BudgetExceededError } from '../domain/errors';
+
+/**
+ * Prices per million tokens, keyed by model, e.g. read from the `modelPrices` config variable:
+ * `{ "@cf/meta/llama-3.1-8b-instruct": { "prompt": 0.28, "completion": 0.83 } }`
+ */
+export type ModelPrices = Record<string, { prompt?: number; completion?: number }>;
+
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+
+/**
+ * Adds up the tokens and cost of an execution's LLM calls and enforces its workflow's budget.
+ * Sub-workflows get a child tracker, so their usage counts against their own budget and every
+ * budget above them. Exceeding a budget aborts `signal` with a BudgetExceededError, which stops
+ * the nodes still running in that execution.
+ */
+export class UsageTracker {
+	private readonly controller = new AbortController();
+	readonly totals: TokenUsage;
+
+	constructor(
+		private readonly budget: WorkflowBudget | null | undefined,
+		private readonly prices: ModelPrices = {},
+		initial?: TokenUsage | null,
+		private readonly parent?: UsageTracker
+	) {
+		this.totals = { ...EMPTY_USAGE, ...initial };
+	}
+
+	get signal(): AbortSignal {
+		return this.controller.signal;
+	}
+
+	child(budget: WorkflowBudget | null | undefined, prices: ModelPrices = this.prices): UsageTracker {
+		return new UsageTracker(budget, prices, null, this);
+	}
+
+	/**
+	 * Counts the `usage` reported in a node output, e.g. `{ prompt_tokens, completion_tokens }`
+	 * of an `llm` node. Returns null when the output reports none.
+	 */
+	record(output: any): TokenUsage | null {
+		const usage = output?.usage;
+		if (!usage || typeof usage !== 'object') {
+			return null;
+		}
+
+		const promptTokens = toTokenCount(usage.prompt_tokens ?? usage.promptTokens);
+		const completionTokens = toTokenCount(usage.completion_tokens ?? usage.completionTokens);
+		const totalTokens = toTokenCount(usage.total_tokens ?? usage.totalTokens) || promptTokens + completionTokens;
+
+		const model = typeof output.model === 'string' ? output.model : null;
+		const price = this.findPrice(model);
+		if (!price && this.hasCostLimit()) {
+			throw new Error(
+				`No price for model '${model ?? 'unknown'}' in the modelPrices config variable, which the maxCost budget needs`
+			);
+		}
+
+		const cost = price
+			? (promptTokens * (price.prompt ?? 0) + completionTokens * (price.completion ?? 0)) / 1_000_000
+			: 0;
+
+		const nodeUsage: TokenUsage = { promptTokens, completionTokens, totalTokens, cost };
+
+		for (let tracker: UsageTracker | undefined = this; tracker; tracker = tracker.parent) {
+			tracker.add(nodeUsage);
+		}
+
+		return nodeUsage;
+	}
+
+	/**
+	 * Throws the BudgetExceededError of this tracker or of a tracker above it, if any.
+	 */
+	throwIfExceeded(): void {
+		for (let tracker: UsageTracker | undefined = this; tracker; tracker = tracker.parent) {
+			if (tracker.signal.aborted) {
+				throw tracker.signal.reason;
+			}
+		}
+	}
+
+	private add(usage: TokenUsage): void {
+		this.totals.promptTokens += usage.promptTokens;
+		this.totals.completionTokens += usage.completionTokens;
+		this.totals.totalTokens += usage.totalTokens;
+		this.totals.cost += usage.cost;
+
+		if (this.signal.aborted || !this.budget) {
+			return;
+		}
+
+		const { maxTokens, maxCost } = this.budget;
+		if (maxTokens !== undefined && this.totals.totalTokens > maxTokens) {
+			this.controller.abort(new BudgetExceededError(
+				`Execution used ${this.totals.totalTokens} tokens, exceeding its budget of ${maxTokens}`
+			));
+		} else if (maxCost !== undefined && this.totals.cost > maxCost) {
+			this.controller.abort(new BudgetExceededError(
+				`Execution cost ${this.totals.cost.toFixed(6)}, exceeding its budget of ${maxCost}`
+			));
+		}
+	}
+
+	private findPrice(model: string | null): ModelPrices[string] | null {
+		if (!model) {
+			return null;
+		}
+		// The openai-sdk provider reports Workers AI models with a `workers-ai/` prefix
+		return this.prices[model] ?? this.prices[model.replace(/^workers-ai\//, '')] ?? null;
+	}
+
+	private hasCostLimit(): boolean {
+		for (let tracker: UsageTracker | undefined = this; tracker; tracker = tracker.parent) {
+			if (tracker.budget?.maxCost !== undefined) {
+				return true;
+			}
+		}
+		return false;
+	}
+}
+
+function toTokenCount(value: unknown): number {
+	return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { findCallCycle, findWorkflowCalls } from './workflow-calls';
+
+describe('workflow calls', () => {
+  it('should find static workflow_ids of workflow_executor and map nodes, including inline chains', () => {
+    const calls = findWorkflowCalls([
+      { id: 'summarise', type: 'workflow_executor', config: { workflow_id: 'summary-wf', parameters: {} } },
+      { id: 'dynamic', type: 'workflow_executor', config: { workflow_id: '{{parameters.target}}', parameters: {} } },
+      {
+        id: 'each',
+        type: 'map',
+        config: {
+          items: '{{parameters.items}}',
+          nodes: [{ id: 'nested', type: 'workflow_executor', config: { workflow_id: 'item-wf', parameters: {} } }],
+        },
+      },
+      { id: 'transform', type: 'data_transformer', config: { workflow_id: 'ignored' } },
+    ]);
+
+    expect(calls).toEqual([
+      { nodeId: 'summarise', workflowId: 'summary-wf', path: 'nodes[0].config.workflow_id' },
+      { nodeId: 'nested', workflowId: 'item-wf', path: 'nodes[2].config.nodes[0].config.workflow_id' },
+    ]);
+  });
+
+  it('should return the shortest chain of calls back to the workflow', () => {
+    const callGraph = new Map([
+      ['a', ['b', 'c']],
+      ['b', ['d']],
+      ['c', ['a']],
+      ['d', ['a']],
+    ]);
+
+    expect(findCallCycle('a', callGraph)).toEqual(['a', 'c', 'a']);
+    expect(findCallCycle('a', new Map([['a', ['a']]]))).toEqual(['a', 'a']);
+    expect(findCallCycle('b', new Map([['b', ['c']], ['c', []]]))).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import type { NodeDTO } from '../schemas/dtos';
+
+export interface WorkflowCall {
+	nodeId: string;
+	workflowId: string;
+	// JSON path of the `workflow_id`, e.g. `nodes[2].config.workflow_id`
+	path: string;
+}
+
+/**
+ * Workflows called by `workflow_executor` and `map` nodes, including nodes of inline map chains.
+ * Templated `workflow_id`s are skipped, since they are only known at runtime.
+ */
+export function findWorkflowCalls(nodes: NodeDTO[], basePath: string = 'nodes'): WorkflowCall[] {
+	const calls: WorkflowCall[] = [];
+
+	nodes.forEach((node, index) => {
+		const path = `${basePath}[${index}]`;
+		const workflowId = node.config?.workflow_id;
+
+		if ((node.type === 'workflow_executor' || node.type === 'map') && typeof workflowId === 'string' && !workflowId.includes('{{')) {
+			calls.push({ nodeId: node.id, workflowId, path: `${path}.config.workflow_id` });
+		}
+
+		if (node.type === 'map' && Array.isArray(node.config?.nodes)) {
+			calls.push(...findWorkflowCalls(node.config.nodes, `${path}.config.nodes`));
+		}
+	});
+
+	return calls;
+}
+
+/**
+ * Returns the shortest chain of calls that leads from `workflowId` back to itself,
+ * e.g. `['a', 'b', 'a']`, or null when its calls never come back to it.
+ */
+export function findCallCycle(workflowId: string, callGraph: Map<string, string[]>): string[] | null {
+	const previous = new Map<string, string>();
+	const queue = [workflowId];
+
+	while (queue.length > 0) {
+		const current = queue.shift()!;
+
+		for (const callee of callGraph.get(current) || []) {
+			if (callee === workflowId) {
+				const chain = [current];
+				while (chain[0] !== workflowId) {
+					chain.unshift(previous.get(chain[0])!);
+				}
+				return [...chain, workflowId];
+			}
+
+			if (!previous.has(callee)) {
+				previous.set(callee, current);
+				queue.push(callee);
+			}
+		}
+	}
+
+	return null;
+}
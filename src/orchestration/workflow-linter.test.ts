@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { lintWorkflow } from './workflow-linter';
+import type { CreateWorkflowDTO } from '../schemas/dtos';
+
+describe('lintWorkflow', () => {
+  const node = (id: string, extra: Record<string, any> = {}) => ({
+    id,
+    type: 'data_transformer',
+    config: { template: {} },
+    ...extra,
+  });
+
+  const workflow = (overrides: Partial<CreateWorkflowDTO>): CreateWorkflowDTO => ({
+    name: 'Lint Workflow',
+    parameterSchema: {},
+    nodes: [],
+    edges: [],
+    startNode: 'start',
+    endNode: 'end',
+    maxIterations: 10,
+    defaultConfigId: 'defaultConfigId',
+    ...overrides,
+  });
+
+  it('should report nothing for a linear workflow', () => {
+    const issues = lintWorkflow(workflow({
+      nodes: [node('start'), node('end')],
+      edges: [{ id: 'e1', from: 'start', to: 'end' }],
+    }));
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should warn about nodes that cannot be reached from the start node', () => {
+    const issues = lintWorkflow(workflow({
+      nodes: [node('start'), node('orphan'), node('end')],
+      edges: [
+        { id: 'e1', from: 'start', to: 'end' },
+        { id: 'e2', from: 'orphan', to: 'end' },
+      ],
+    }));
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'warning', code: 'unreachable_node', nodeId: 'orphan' }),
+    ]);
+  });
+
+  it('should report a static cycle that never reaches the end node', () => {
+    const issues = lintWorkflow(workflow({
+      nodes: [node('start'), node('a'), node('b'), node('end')],
+      edges: [
+        { id: 'e1', from: 'start', conditions: [{ node: 'a', condition: 'true' }], default: 'end' },
+        { id: 'e2', from: 'a', to: 'b' },
+        { id: 'e3', from: 'b', to: 'a' },
+      ],
+    }));
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'error', code: 'cycle_without_exit', nodeId: 'a' }),
+    ]);
+  });
+
+  it('should not report a cycle with a dynamic exit', () => {
+    const issues = lintWorkflow(workflow({
+      nodes: [node('start'), node('loop', { setState: [{ key: 'count', template: '{{state.count + 1}}' }] }), node('end')],
+      edges: [
+        { id: 'e1', from: 'start', to: 'loop' },
+        { id: 'e2', from: 'loop', conditions: [{ node: 'end', condition: 'state.count >= 3' }], default: 'loop' },
+      ],
+    }));
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should report nodes with no path to the end node', () => {
+    const issues = lintWorkflow(workflow({
+      nodes: [node('start'), node('dead_end'), node('end')],
+      edges: [
+        { id: 'e1', from: 'start', conditions: [{ node: 'dead_end', condition: 'parameters.x' }], default: 'end' },
+      ],
+    }));
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'error', code: 'cannot_reach_end', nodeId: 'dead_end' }),
+    ]);
+  });
+
+  it('should report dynamic conditions that route to missing nodes with their path', () => {
+    const issues = lintWorkflow(workflow({
+      nodes: [node('start'), node('end')],
+      edges: [
+        { id: 'e1', from: 'start', conditions: [{ node: 'end', condition: 'true' }, { node: 'missing', condition: 'false' }] },
+      ],
+    }));
+
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        code: 'unknown_condition_target',
+        message: "Dynamic edge 'e1' routes to non-existent node 'missing'",
+        edgeId: 'e1',
+        path: 'edges[0].conditions[1].node',
+      },
+    ]);
+  });
+
+  it('should warn about state keys that are only written', () => {
+    const issues = lintWorkflow(workflow({
+      nodes: [
+        node('start', {
+          setState: [
+            { key: 'used', template: '{{output}}' },
+            { key: 'unused', template: '{{state.unused + 1}}' },
+          ],
+        }),
+        node('end', { config: { template: { value: "{{state['used']}}" } } }),
+      ],
+      edges: [{ id: 'e1', from: 'start', to: 'end' }],
+    }));
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: 'warning',
+        code: 'unused_state_key',
+        nodeId: 'start',
+        path: 'nodes[0].setState[1].key',
+      }),
+    ]);
+  });
+
+  describe('template references', () => {
+    it('should report parent references to nodes that do not run before the template', () => {
+      const issues = lintWorkflow(workflow({
+        nodes: [
+          node('start', { config: { text: '{{parent.answer.result}}' } }),
+          node('answer', { config: { prompt: 'Use {{parent.generate_query_embeding.embedding}}' } }),
+          node('end'),
+        ],
+        edges: [
+          { id: 'e1', from: 'start', to: 'answer' },
+          { id: 'e2', from: 'answer', to: 'end' },
+        ],
+      }));
+
+      expect(issues).toEqual([
+        expect.objectContaining({ code: 'parent_not_upstream', nodeId: 'start', path: 'nodes[0].config.text' }),
+        expect.objectContaining({ code: 'unknown_parent_reference', nodeId: 'answer', path: 'nodes[1].config.prompt' }),
+      ]);
+    });
+
+    it('should accept references to earlier nodes in edge conditions and inline map chains', () => {
+      const issues = lintWorkflow(workflow({
+        nodes: [
+          node('start'),
+          {
+            id: 'each',
+            type: 'map',
+            config: {
+              items: '{{parent.start.items}}',
+              nodes: [
+                node('embed', { config: { text: '{{item.text}}' } }),
+                node('store', { config: { values: '{{parent.embed.embedding}}' } }),
+              ],
+            },
+          },
+          node('end'),
+        ],
+        edges: [
+          { id: 'e1', from: 'start', to: 'each' },
+          { id: 'e2', from: 'each', conditions: [{ node: 'end', condition: 'parent.each.count > 0' }], default: 'end' },
+        ],
+      }));
+
+      expect(issues).toEqual([]);
+    });
+
+    it('should check parameters against parameterSchema and config against the default config', () => {
+      const issues = lintWorkflow(workflow({
+        parameterSchema: { type: 'object', properties: { query: { type: 'string' } } },
+        nodes: [
+          node('start', { config: { text: '{{parameters.query}} {{parameters.qurey}}', key: '{{config.API_KEY}}' } }),
+          node('end', { config: { url: '{{config.BASE_URL}}/search' } }),
+        ],
+        edges: [{ id: 'e1', from: 'start', to: 'end' }],
+      }), { configKeys: ['API_KEY'] });
+
+      expect(issues).toEqual([
+        expect.objectContaining({ severity: 'error', code: 'unknown_parameter', path: 'nodes[0].config.text' }),
+        expect.objectContaining({ severity: 'warning', code: 'unknown_config_key', path: 'nodes[1].config.url' }),
+      ]);
+    });
+
+    it('should check the workflow output template against the nodes that run before it', () => {
+      const issues = lintWorkflow(workflow({
+        nodes: [node('start'), node('end')],
+        edges: [{ id: 'e1', from: 'start', to: 'end' }],
+        output: { answer: '{{parent.end.result}}', sources: '{{parent.search.matches}}' },
+      }));
+
+      expect(issues).toEqual([
+        expect.objectContaining({ code: 'unknown_parent_reference', path: 'output.sources' }),
+      ]);
+    });
+
+    it('should report expressions that do not parse', () => {
+      const issues = lintWorkflow(workflow({
+        nodes: [node('start', { config: { text: '{{parent.}}' } }), node('end')],
+        edges: [{ id: 'e1', from: 'start', to: 'end' }],
+      }));
+
+      expect(issues).toEqual([
+        expect.objectContaining({ severity: 'error', code: 'invalid_expression', nodeId: 'start', path: 'nodes[0].config.text' }),
+      ]);
+    });
+  });
+});
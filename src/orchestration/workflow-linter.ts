@@ -0,0 +1,416 @@
+import type { CreateWorkflowDTO, NodeDTO } from '../schemas/dtos';
+import type { Edge, LintIssue } from '../domain/entities';
+import { TemplateParser } from '../utils/template-parser';
+
+interface WorkflowGraph {
+	nodeIds: Set<string>;
+	// Targets the traversal can move to after a node completes; error edges are kept apart
+	successors: Map<string, Set<string>>;
+	errorSuccessors: Map<string, Set<string>>;
+}
+
+export interface LintOptions {
+	// Variables of the workflow's default config; `config.*` references are only checked when given
+	configKeys?: string[];
+}
+
+/**
+ * Static analysis of a workflow definition. Unlike `validateWorkflow`, which rejects definitions
+ * the orchestrator cannot load, this reports graphs that load fine but cannot run as intended.
+ */
+export function lintWorkflow(workflow: CreateWorkflowDTO, options: LintOptions = {}): LintIssue[] {
+	const nodes = workflow.nodes as NodeDTO[];
+	const edges = workflow.edges as Edge[];
+	const graph = buildGraph(nodes, edges);
+
+	const issues: LintIssue[] = [
+		...findUnknownConditionTargets(edges, graph),
+		...findUnreachableNodes(workflow, graph),
+		...findUnusedStateKeys(nodes, edges, workflow.output),
+		...findBadTemplateReferences(workflow, graph, options),
+	];
+
+	const trapped = new Set<string>();
+	for (const cycle of findCyclesWithoutExit(workflow, graph)) {
+		cycle.forEach((nodeId) => trapped.add(nodeId));
+		issues.push({
+			severity: 'error',
+			code: 'cycle_without_exit',
+			message: `Nodes ${cycle.map((id) => `'${id}'`).join(', ')} form a cycle that never leads out of it`,
+			nodeId: cycle[0],
+		});
+	}
+
+	issues.push(...findNodesThatCannotReachEnd(workflow, graph, trapped));
+
+	return issues;
+}
+
+function buildGraph(nodes: NodeDTO[], edges: Edge[]): WorkflowGraph {
+	const nodeIds = new Set(nodes.map((node) => node.id));
+	const successors = new Map<string, Set<string>>();
+	const errorSuccessors = new Map<string, Set<string>>();
+
+	const link = (map: Map<string, Set<string>>, from: string, to: string | undefined) => {
+		if (to === undefined || !nodeIds.has(to)) return;
+		if (!map.has(from)) map.set(from, new Set());
+		map.get(from)!.add(to);
+	};
+
+	for (const edge of edges) {
+		if ('onError' in edge) {
+			link(errorSuccessors, edge.from, edge.onError);
+		} else if ('to' in edge) {
+			link(successors, edge.from, edge.to);
+		} else if ('branches' in edge) {
+			edge.branches.forEach((branch) => link(successors, edge.from, branch));
+			link(successors, edge.from, edge.join);
+		} else if ('cases' in edge) {
+			Object.values(edge.cases).forEach((target) => link(successors, edge.from, target));
+			link(successors, edge.from, edge.default);
+		} else {
+			edge.conditions.forEach(({ node }) => link(successors, edge.from, node));
+			link(successors, edge.from, edge.default);
+		}
+	}
+
+	return { nodeIds, successors, errorSuccessors };
+}
+
+function findUnknownConditionTargets(edges: Edge[], graph: WorkflowGraph): LintIssue[] {
+	const issues: LintIssue[] = [];
+
+	edges.forEach((edge, edgeIndex) => {
+		if (!('conditions' in edge)) return;
+
+		edge.conditions.forEach(({ node }, conditionIndex) => {
+			if (!graph.nodeIds.has(node)) {
+				issues.push({
+					severity: 'error',
+					code: 'unknown_condition_target',
+					message: `Dynamic edge '${edge.id}' routes to non-existent node '${node}'`,
+					edgeId: edge.id,
+					path: `edges[${edgeIndex}].conditions[${conditionIndex}].node`,
+				});
+			}
+		});
+	});
+
+	return issues;
+}
+
+function findUnreachableNodes(workflow: CreateWorkflowDTO, graph: WorkflowGraph): LintIssue[] {
+	const reachable = collectReachable(workflow, graph);
+
+	return [...graph.nodeIds]
+		.filter((nodeId) => !reachable.has(nodeId))
+		.map((nodeId) => ({
+			severity: 'warning' as const,
+			code: 'unreachable_node',
+			message: `Node '${nodeId}' cannot be reached from start node '${workflow.startNode}'`,
+			nodeId,
+		}));
+}
+
+function findNodesThatCannotReachEnd(
+	workflow: CreateWorkflowDTO,
+	graph: WorkflowGraph,
+	alreadyReported: Set<string>
+): LintIssue[] {
+	const predecessors = new Map<string, Set<string>>();
+	for (const [from, targets] of graph.successors) {
+		for (const to of targets) {
+			if (!predecessors.has(to)) predecessors.set(to, new Set());
+			predecessors.get(to)!.add(from);
+		}
+	}
+
+	const reachesEnd = new Set<string>([workflow.endNode]);
+	const queue = [workflow.endNode];
+	while (queue.length > 0) {
+		const nodeId = queue.shift()!;
+		for (const predecessor of predecessors.get(nodeId) || []) {
+			if (!reachesEnd.has(predecessor)) {
+				reachesEnd.add(predecessor);
+				queue.push(predecessor);
+			}
+		}
+	}
+
+	// Unreachable nodes are only worth a warning, which they already got
+	const reachable = collectReachable(workflow, graph);
+
+	return [...reachable]
+		.filter((nodeId) => !reachesEnd.has(nodeId) && !alreadyReported.has(nodeId))
+		.map((nodeId) => ({
+			severity: 'error' as const,
+			code: 'cannot_reach_end',
+			message: `Node '${nodeId}' has no path to end node '${workflow.endNode}'`,
+			nodeId,
+		}));
+}
+
+/**
+ * Strongly connected components (Tarjan) that loop back on themselves without any edge
+ * leaving them. The traversal stops at `endNode`, so a cycle containing it always has an exit.
+ */
+function findCyclesWithoutExit(workflow: CreateWorkflowDTO, graph: WorkflowGraph): string[][] {
+	const indexes = new Map<string, number>();
+	const lowLinks = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+	let nextIndex = 0;
+
+	const visit = (nodeId: string) => {
+		indexes.set(nodeId, nextIndex);
+		lowLinks.set(nodeId, nextIndex);
+		nextIndex++;
+		stack.push(nodeId);
+		onStack.add(nodeId);
+
+		for (const target of graph.successors.get(nodeId) || []) {
+			if (!indexes.has(target)) {
+				visit(target);
+				lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, lowLinks.get(target)!));
+			} else if (onStack.has(target)) {
+				lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, indexes.get(target)!));
+			}
+		}
+
+		if (lowLinks.get(nodeId) === indexes.get(nodeId)) {
+			const component: string[] = [];
+			let member: string;
+			do {
+				member = stack.pop()!;
+				onStack.delete(member);
+				component.push(member);
+			} while (member !== nodeId);
+			components.push(component.reverse());
+		}
+	};
+
+	for (const nodeId of graph.nodeIds) {
+		if (!indexes.has(nodeId)) {
+			visit(nodeId);
+		}
+	}
+
+	return components.filter((component) => {
+		const members = new Set(component);
+		const isCycle = component.length > 1 || graph.successors.get(component[0])?.has(component[0]);
+		if (!isCycle || members.has(workflow.endNode)) {
+			return false;
+		}
+
+		return component.every((nodeId) =>
+			[...(graph.successors.get(nodeId) || [])].every((target) => members.has(target))
+		);
+	});
+}
+
+function findUnusedStateKeys(nodes: NodeDTO[], edges: Edge[], output: unknown): LintIssue[] {
+	const issues: LintIssue[] = [];
+
+	nodes.forEach((node, nodeIndex) => {
+		node.setState?.forEach(({ key }, ruleIndex) => {
+			const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+			// Quotes are escaped in the serialized definition, hence the optional backslash
+			const reference = new RegExp(`\\bstate\\s*(\\.\\s*${escaped}\\b|\\[\\s*\\\\?['"]${escaped}\\\\?['"]\\s*\\])`);
+
+			// A rule that only reads its own key (e.g. a counter) does not make the key used
+			const readers = JSON.stringify({
+				nodes: nodes.map((other) => ({
+					config: other.config,
+					setState: other.setState?.filter((_, index) => other !== node || index !== ruleIndex),
+				})),
+				edges,
+				output,
+			});
+
+			if (!reference.test(readers)) {
+				issues.push({
+					severity: 'warning',
+					code: 'unused_state_key',
+					message: `State key '${key}' set by node '${node.id}' is never read`,
+					nodeId: node.id,
+					path: `nodes[${nodeIndex}].setState[${ruleIndex}].key`,
+				});
+			}
+		});
+	});
+
+	return issues;
+}
+
+/**
+ * Checks every `{{...}}` expression in node configs, `setState` rules and the workflow `output`, and
+ * every edge condition and switch expression: `parent.X` must be a node that can run before the template is evaluated,
+ * `parameters.X` must be declared in `parameterSchema` and `config.X` must exist in the default config.
+ */
+function findBadTemplateReferences(workflow: CreateWorkflowDTO, graph: WorkflowGraph, options: LintOptions): LintIssue[] {
+	const parser = new TemplateParser();
+	const issues: LintIssue[] = [];
+	const nodes = workflow.nodes as NodeDTO[];
+	const declaredParameters = workflow.parameterSchema?.properties;
+	const predecessors = collectPredecessors(graph);
+
+	const checkExpression = (expression: string, path: string, owner: { nodeId?: string; edgeId?: string }, upstream: Set<string>) => {
+		let variables: string[];
+		try {
+			variables = parser.variables(expression);
+		} catch (error: any) {
+			issues.push({ severity: 'error', code: 'invalid_expression', message: `Invalid expression '${expression}': ${error.message}`, ...owner, path });
+			return;
+		}
+
+		for (const variable of variables) {
+			const [root, key] = variable.split('.');
+			if (!key) continue;
+
+			if (root === 'parent' && !upstream.has(key)) {
+				const exists = graph.nodeIds.has(key);
+				issues.push({
+					severity: 'error',
+					code: exists ? 'parent_not_upstream' : 'unknown_parent_reference',
+					message: exists
+						? `'${variable}' refers to node '${key}', which cannot run before this template is evaluated`
+						: `'${variable}' refers to non-existent node '${key}'`,
+					...owner,
+					path,
+				});
+			} else if (root === 'parameters' && declaredParameters && typeof declaredParameters === 'object' && !(key in declaredParameters)) {
+				issues.push({
+					severity: 'error',
+					code: 'unknown_parameter',
+					message: `'${variable}' is not declared in parameterSchema`,
+					...owner,
+					path,
+				});
+			} else if (root === 'config' && options.configKeys && !options.configKeys.includes(key)) {
+				issues.push({
+					severity: 'warning',
+					code: 'unknown_config_key',
+					message: `'${variable}' does not exist in the default config`,
+					...owner,
+					path,
+				});
+			}
+		}
+	};
+
+	const checkTemplate = (template: any, path: string, owner: { nodeId?: string }, upstream: Set<string>) => {
+		walkStrings(template, path, (value, valuePath) => {
+			for (const expression of parser.expressions(value)) {
+				checkExpression(expression, valuePath, owner, upstream);
+			}
+		});
+	};
+
+	const checkNode = (node: NodeDTO, path: string, upstream: Set<string>) => {
+		const { nodes: chain, ...config } = node.config;
+
+		Object.entries(config).forEach(([key, value]) => checkTemplate(value, `${path}.config.${key}`, { nodeId: node.id }, upstream));
+		node.setState?.forEach((rule, index) => checkTemplate(rule.template, `${path}.setState[${index}].template`, { nodeId: node.id }, upstream));
+
+		// Inline map chains also see the outputs of the chain nodes before them
+		if (node.type === 'map' && Array.isArray(chain)) {
+			const chainUpstream = new Set(upstream);
+			chain.forEach((chainNode: NodeDTO, index: number) => {
+				checkNode(chainNode, `${path}.config.nodes[${index}]`, new Set(chainUpstream));
+				chainUpstream.add(chainNode.id);
+			});
+		} else if (chain !== undefined) {
+			checkTemplate(chain, `${path}.config.nodes`, { nodeId: node.id }, upstream);
+		}
+	};
+
+	nodes.forEach((node, index) => checkNode(node, `nodes[${index}]`, collectUpstream(node.id, predecessors)));
+
+	(workflow.edges as Edge[]).forEach((edge, index) => {
+		// Edges are evaluated after their source node completed
+		const upstream = collectUpstream(edge.from, predecessors).add(edge.from);
+		const owner = { edgeId: edge.id };
+
+		if ('conditions' in edge) {
+			edge.conditions.forEach(({ condition }, conditionIndex) =>
+				checkExpression(condition, `edges[${index}].conditions[${conditionIndex}].condition`, owner, upstream)
+			);
+		} else if ('cases' in edge) {
+			checkExpression(edge.expression, `edges[${index}].expression`, owner, upstream);
+		}
+	});
+
+	// The output template is evaluated after the end node has run
+	if (workflow.output != null) {
+		checkTemplate(workflow.output, 'output', {}, collectUpstream(workflow.endNode, predecessors).add(workflow.endNode));
+	}
+
+	return issues;
+}
+
+function walkStrings(value: any, path: string, visit: (value: string, path: string) => void): void {
+	if (typeof value === 'string') {
+		visit(value, path);
+	} else if (Array.isArray(value)) {
+		value.forEach((item, index) => walkStrings(item, `${path}[${index}]`, visit));
+	} else if (typeof value === 'object' && value !== null) {
+		Object.entries(value).forEach(([key, item]) => walkStrings(item, `${path}.${key}`, visit));
+	}
+}
+
+function collectPredecessors(graph: WorkflowGraph): Map<string, string[]> {
+	const predecessors = new Map<string, string[]>();
+	for (const map of [graph.successors, graph.errorSuccessors]) {
+		for (const [from, targets] of map) {
+			for (const to of targets) {
+				predecessors.set(to, [...(predecessors.get(to) || []), from]);
+			}
+		}
+	}
+	return predecessors;
+}
+
+// Nodes with a path to `nodeId`, i.e. the nodes whose output can be in `parent` when it runs
+function collectUpstream(nodeId: string, predecessors: Map<string, string[]>): Set<string> {
+	const upstream = new Set<string>();
+	const queue = [nodeId];
+	while (queue.length > 0) {
+		for (const predecessor of predecessors.get(queue.shift()!) || []) {
+			if (!upstream.has(predecessor)) {
+				upstream.add(predecessor);
+				queue.push(predecessor);
+			}
+		}
+	}
+
+	return upstream;
+}
+
+function collectReachable(workflow: CreateWorkflowDTO, graph: WorkflowGraph): Set<string> {
+	const reachable = new Set<string>();
+	if (!graph.nodeIds.has(workflow.startNode)) {
+		return reachable;
+	}
+
+	reachable.add(workflow.startNode);
+	const queue = [workflow.startNode];
+	while (queue.length > 0) {
+		const nodeId = queue.shift()!;
+		// Nothing runs after the end node
+		if (nodeId === workflow.endNode) continue;
+
+		const targets = [
+			...(graph.successors.get(nodeId) || []),
+			...(graph.errorSuccessors.get(nodeId) || []),
+		];
+		for (const target of targets) {
+			if (!reachable.has(target)) {
+				reachable.add(target);
+				queue.push(target);
+			}
+		}
+	}
+
+	return reachable;
+}
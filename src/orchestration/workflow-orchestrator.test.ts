@@ -1,12 +1,20 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { WorkflowOrchestrator } from './workflow-orchestrator';
+import { WorkflowService } from '../services/workflow.service';
+import { abortExecution } from './execution-registry';
+import { parseTraceparent } from './tracing';
 import type { WorkflowModel, ExecutionModel } from '../domain/entities';
 
-describe('WorkflowOrchestrator', () => {
+// Results of `execute` per test name without the mode, compared across modes once both have run
+const resultsByMode: Record<string, Record<string, any[]>> = { sequential: {}, dag: {} };
+
+// Every case also runs in `dag` mode, which has to produce the same results as the sequential traversal
+describe.each([{ executionMode: 'sequential' }, { executionMode: 'dag' }] as const)('WorkflowOrchestrator ($executionMode)', ({ executionMode }) => {
   let orchestrator: WorkflowOrchestrator;
   let mockNodeExecRepo: any;
   let mockExecutionRepo: any;
   let mockNodeFactory: any;
+  let mockThreadRepo: any;
   let mockWorkflowRepo: any;
   let mockExecution: ExecutionModel;
 
@@ -20,7 +28,10 @@ describe('WorkflowOrchestrator', () => {
 
     mockExecutionRepo = {
       update: vi.fn().mockResolvedValue(undefined),
+      updateUnlessFinished: vi.fn().mockResolvedValue(true),
+      heartbeat: vi.fn().mockResolvedValue(undefined),
       create: vi.fn().mockResolvedValue({ id: 'sub-exec-1' }),
+      findById: vi.fn().mockResolvedValue(null),
     };
 
     mockNodeFactory = {
@@ -31,13 +42,29 @@ describe('WorkflowOrchestrator', () => {
       findById: vi.fn(),
     };
 
+    mockThreadRepo = {
+      update: vi.fn().mockResolvedValue(null),
+    };
+
     orchestrator = new WorkflowOrchestrator(
       mockNodeExecRepo,
       mockExecutionRepo,
       mockNodeFactory,
-      mockWorkflowRepo
+      new WorkflowService(mockWorkflowRepo),
+      mockThreadRepo
     );
 
+    // Workflows that set executionMode themselves keep it
+    const execute = orchestrator.execute.bind(orchestrator);
+    const executeWithStreaming = orchestrator.executeWithStreaming.bind(orchestrator);
+    orchestrator.execute = async (workflow, ...rest) => {
+      const result = await execute({ executionMode, ...workflow }, ...rest);
+      const testName = expect.getState().currentTestName!.split(' > ').slice(1).join(' > ');
+      (resultsByMode[executionMode][testName] ??= []).push(result);
+      return result;
+    };
+    orchestrator.executeWithStreaming = (workflow, ...rest) => executeWithStreaming({ executionMode, ...workflow }, ...rest);
+
     mockExecution = {
       id: 'exec-1',
       workflowId: 'workflow-1',
@@ -92,7 +119,7 @@ describe('WorkflowOrchestrator', () => {
       expect(result).toEqual({ value: 3 });
 
       // Should update execution status
-      expect(mockExecutionRepo.update).toHaveBeenCalledWith(
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith(
         'exec-1',
         expect.objectContaining({
           status: 'completed',
@@ -113,15 +140,7 @@ describe('WorkflowOrchestrator', () => {
             id: 'counter',
             type: 'data_transformer',
             config: { template: { count: '{{state.count}}' } },
-            setState: [
-              {
-                key: 'count',
-                rule: [
-                  { if: 'true', then: 'count = state.count + 1' },
-                  { return: 'count' },
-                ],
-              },
-            ],
+            setState: [{ key: 'count', template: '{{state.count + 1}}' }],
           },
           {
             id: 'check',
@@ -139,10 +158,8 @@ describe('WorkflowOrchestrator', () => {
           {
             id: 'e2',
             from: 'check',
-            rule: [
-              { if: 'state.count < 3', then: 'nextNode = "counter"', else: 'nextNode = "end"' },
-              { return: 'nextNode' },
-            ],
+            conditions: [{ node: 'counter', condition: 'state.count < 3' }],
+            default: 'end',
           },
         ],
         startNode: 'counter',
@@ -207,7 +224,7 @@ describe('WorkflowOrchestrator', () => {
         'Workflow execution exceeded maximum iterations (5)'
       );
 
-      expect(mockExecutionRepo.update).toHaveBeenCalledWith(
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith(
         'exec-1',
         expect.objectContaining({
           status: 'failed',
@@ -228,7 +245,7 @@ describe('WorkflowOrchestrator', () => {
             id: 'check_score',
             type: 'data_transformer',
             config: { template: { score: 75 } },
-            setState: [{ key: 'score', rule: [{ if: 'true', then: 'score = 75' }, { return: 'score' }] }],
+            setState: [{ key: 'score', template: '{{output.score}}' }],
           },
           { id: 'high_score', type: 'data_transformer', config: { template: { result: 'high' } } },
           { id: 'low_score', type: 'data_transformer', config: { template: { result: 'low' } } },
@@ -237,11 +254,8 @@ describe('WorkflowOrchestrator', () => {
           {
             id: 'e1',
             from: 'check_score',
-            rule: [
-              { if: 'state.score >= 70', then: 'nextNode = "high_score"' },
-              { then: 'nextNode = "low_score"' },
-              { return: 'nextNode' },
-            ],
+            conditions: [{ node: 'high_score', condition: 'state.score >= 70' }],
+            default: 'low_score',
           },
         ],
         startNode: 'check_score',
@@ -282,7 +296,7 @@ describe('WorkflowOrchestrator', () => {
           {
             id: 'e1',
             from: 'start',
-            rule: [{ if: 'true', then: 'nextNode = "non_existent_node"' }, { return: 'nextNode' }],
+            conditions: [{ node: 'non_existent_node', condition: 'true' }],
           },
         ],
         startNode: 'start',
@@ -318,8 +332,8 @@ describe('WorkflowOrchestrator', () => {
             type: 'data_transformer',
             config: { template: { initial: true } },
             setState: [
-              { key: 'counter', rule: [{ if: 'true', then: 'counter = 1' }, { return: 'counter' }] },
-              { key: 'name', rule: [{ if: 'true', then: 'name = "test"' }, { return: 'name' }] },
+              { key: 'counter', template: 1 },
+              { key: 'name', template: 'test' },
             ],
           },
           {
@@ -569,4 +583,1436 @@ describe('WorkflowOrchestrator', () => {
       });
     });
   });
+
+  describe('Parallel Edges', () => {
+    const buildWorkflow = (wait?: number): WorkflowModel => ({
+      id: 'workflow-14',
+      name: 'Parallel Workflow',
+      parameterSchema: {},
+      nodes: [
+        { id: 'start', type: 'data_transformer', config: { template: { query: 'q' } } },
+        { id: 'lookup_a', type: 'data_transformer', config: { template: { a: 1 } } },
+        { id: 'lookup_b', type: 'data_transformer', config: { template: { b: 2 } } },
+        { id: 'merge', type: 'join', config: wait ? { wait } : {} },
+        { id: 'end', type: 'data_transformer', config: { template: {} } },
+      ],
+      edges: [
+        { id: 'e1', from: 'start', branches: ['lookup_a', 'lookup_b'], join: 'merge' },
+        { id: 'e2', from: 'lookup_a', to: 'merge' },
+        { id: 'e3', from: 'lookup_b', to: 'merge' },
+        { id: 'e4', from: 'merge', to: 'end' },
+      ],
+      startNode: 'start',
+      endNode: 'end',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const joinExecutor = {
+      run: vi.fn(async (_node: any, input: any) => ({ branches: input.branches })),
+    };
+
+    it('should run branches concurrently and merge their outputs at the join node', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const outputs: Record<string, any> = {
+        start: { query: 'q' },
+        lookup_a: { a: 1 },
+        lookup_b: { b: 2 },
+      };
+      const mockExecutor = {
+        run: vi.fn(async (node: any, input: any) => {
+          if (node.id === 'end') {
+            return { merged: input.parent.merge, a: input.parent.lookup_a };
+          }
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+          return outputs[node.id];
+        }),
+      };
+
+      mockNodeFactory.getExecutor.mockImplementation(async (type: string) => (type === 'join' ? joinExecutor : mockExecutor));
+
+      const result = await orchestrator.execute(buildWorkflow(), mockExecution);
+
+      expect(maxRunning).toBe(2);
+      expect(result).toEqual({
+        merged: { branches: { lookup_a: { a: 1 }, lookup_b: { b: 2 } } },
+        a: { a: 1 },
+      });
+    });
+
+    it('should continue once the join wait count is reached', async () => {
+      const mockExecutor = {
+        run: vi.fn(async (node: any, input: any) => {
+          if (node.id === 'lookup_b') {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+          }
+          if (node.id === 'end') {
+            return input.parent.merge;
+          }
+          return { from: node.id };
+        }),
+      };
+
+      mockNodeFactory.getExecutor.mockImplementation(async (type: string) => (type === 'join' ? joinExecutor : mockExecutor));
+
+      const result = await orchestrator.execute(buildWorkflow(1), mockExecution);
+
+      expect(result).toEqual({ branches: { lookup_a: { from: 'lookup_a' } } });
+    });
+
+    it('should stop the branches the join no longer waits for before continuing', async () => {
+      let endState: Record<string, any> = {};
+      const mockExecutor = {
+        run: vi.fn(async (node: any, input: any) => {
+          if (node.id === 'lookup_b') {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+          }
+          if (node.id === 'end') {
+            endState = input.state;
+          }
+          return { from: node.id };
+        }),
+      };
+
+      mockNodeFactory.getExecutor.mockImplementation(async (type: string) => (type === 'join' ? joinExecutor : mockExecutor));
+
+      const workflow = buildWorkflow(1);
+      workflow.nodes[2] = { ...workflow.nodes[2], setState: [{ key: 'slow', template: 'done' }] };
+
+      await orchestrator.execute(workflow, mockExecution);
+
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({ status: 'cancelled' }));
+      const creates = mockNodeExecRepo.create.mock.calls.length;
+      const updates = mockNodeExecRepo.update.mock.calls.length;
+
+      // Long enough for the slow branch to have finished, had it kept running
+      await new Promise((resolve) => setTimeout(resolve, 40));
+
+      expect(mockNodeExecRepo.create).toHaveBeenCalledTimes(creates);
+      expect(mockNodeExecRepo.update).toHaveBeenCalledTimes(updates);
+      expect(endState.slow).toBeUndefined();
+    });
+
+    it('should fail the execution when a required branch fails', async () => {
+      const mockExecutor = {
+        run: vi.fn(async (node: any) => {
+          if (node.id === 'lookup_b') {
+            throw new Error('vector index unavailable');
+          }
+          return { from: node.id };
+        }),
+      };
+
+      mockNodeFactory.getExecutor.mockImplementation(async (type: string) => (type === 'join' ? joinExecutor : mockExecutor));
+
+      await expect(orchestrator.execute(buildWorkflow(), mockExecution)).rejects.toThrow(
+        "Parallel branch 'lookup_b' of edge 'e1' failed: vector index unavailable"
+      );
+    });
+
+    it('should reject a parallel edge that does not join on a join node', async () => {
+      const workflow = buildWorkflow();
+      workflow.nodes[3] = { id: 'merge', type: 'data_transformer', config: {} };
+
+      await expect(orchestrator.execute(workflow, mockExecution)).rejects.toThrow(
+        "Parallel edge 'e1' must join on a node of type 'join', got 'data_transformer'"
+      );
+    });
+  });
+
+  describe('Map Nodes', () => {
+    it('should run the inline chain per item and keep results in item order', async () => {
+      const workflow: WorkflowModel = {
+        id: 'workflow-15',
+        name: 'Map Workflow',
+        parameterSchema: {},
+        nodes: [
+          {
+            id: 'ingest',
+            type: 'map',
+            config: {
+              items: '{{parameters.documents}}',
+              concurrency: 2,
+              nodes: [
+                { id: 'embed', type: 'data_transformer', config: { template: {} } },
+                { id: 'store', type: 'data_transformer', config: { template: {} } },
+              ],
+            },
+          },
+        ],
+        edges: [],
+        startNode: 'ingest',
+        endNode: 'ingest',
+        state: {},
+        maxIterations: 100,
+        defaultConfigId: 'defaultConfigId',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const mockExecutor = {
+        run: vi.fn(async (node: any, input: any) => {
+          if (node.id === 'embed') {
+            // Finish later items first to make sure ordering does not depend on timing
+            await new Promise((resolve) => setTimeout(resolve, 10 - input.index * 3));
+            return { vector: input.item.length };
+          }
+          return { id: input.item, size: input.parent.embed.vector };
+        }),
+      };
+
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      const result = await orchestrator.execute(workflow, {
+        ...mockExecution,
+        parameters: { documents: ['a', 'bb', 'ccc'] },
+      });
+
+      expect(result).toEqual({
+        results: [
+          { id: 'a', size: 1 },
+          { id: 'bb', size: 2 },
+          { id: 'ccc', size: 3 },
+        ],
+        count: 3,
+      });
+      expect(mockExecutor.run).toHaveBeenCalledTimes(6);
+    });
+
+    it('should start no items after one fails and abort the ones still running', async () => {
+      const workflow: WorkflowModel = {
+        id: 'workflow-41',
+        name: 'Failing Map Workflow',
+        parameterSchema: {},
+        nodes: [
+          {
+            id: 'ingest',
+            type: 'map',
+            config: {
+              items: '{{parameters.documents}}',
+              concurrency: 2,
+              nodes: [{ id: 'embed', type: 'data_transformer', config: { template: {} } }],
+            },
+          },
+        ],
+        edges: [],
+        startNode: 'ingest',
+        endNode: 'ingest',
+        state: {},
+        maxIterations: 100,
+        defaultConfigId: 'defaultConfigId',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const started: number[] = [];
+      let aborted = false;
+      mockNodeFactory.getExecutor.mockResolvedValue({
+        run: vi.fn(async (_node: any, input: any, { signal }: any) => {
+          started.push(input.index);
+          if (input.index === 0) {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            throw new Error('Embedding failed');
+          }
+          // The other item only ends when it is aborted
+          await new Promise((_, reject) => signal.addEventListener('abort', () => {
+            aborted = true;
+            reject(signal.reason);
+          }));
+        }),
+      });
+
+      await expect(orchestrator.execute(workflow, {
+        ...mockExecution,
+        parameters: { documents: ['a', 'b', 'c', 'd'] },
+      })).rejects.toThrow('Embedding failed');
+
+      const createdRows = mockNodeExecRepo.create.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(started).toEqual([0, 1]);
+      expect(aborted).toBe(true);
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({ status: 'cancelled' }));
+      expect(mockNodeExecRepo.create).toHaveBeenCalledTimes(createdRows);
+    });
+  });
+
+  describe('Retry Policy', () => {
+    const buildWorkflow = (retry: any): WorkflowModel => ({
+      id: 'workflow-16',
+      name: 'Retry Workflow',
+      parameterSchema: {},
+      nodes: [
+        { id: 'call_api', type: 'http_request', config: { url: 'https://api.example.com' }, retry },
+      ],
+      edges: [],
+      startNode: 'call_api',
+      endNode: 'call_api',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    it('should retry retryable statuses and record each attempt', async () => {
+      const mockExecutor = {
+        run: vi.fn()
+          .mockResolvedValueOnce({ status: 429 })
+          .mockRejectedValueOnce(Object.assign(new Error('Gateway timeout'), { status: 504 }))
+          .mockResolvedValueOnce({ status: 200, data: 'ok' }),
+      };
+
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      const result = await orchestrator.execute(
+        buildWorkflow({ maxAttempts: 3, initialDelayMs: 0, retryOn: { statuses: [429, 504] } }),
+        mockExecution
+      );
+
+      expect(result).toEqual({ status: 200, data: 'ok' });
+      expect(mockNodeExecRepo.create.mock.calls.map(([row]: any) => row.attempt)).toEqual([1, 2, 3]);
+    });
+
+    it('should not retry errors that are not classified as retryable', async () => {
+      const mockExecutor = {
+        run: vi.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 })),
+      };
+
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      await expect(
+        orchestrator.execute(buildWorkflow({ maxAttempts: 3, initialDelayMs: 0, retryOn: { statuses: [429] } }), mockExecution)
+      ).rejects.toThrow('Bad request');
+      expect(mockExecutor.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the last output when attempts are exhausted', async () => {
+      const mockExecutor = {
+        run: vi.fn().mockResolvedValue({ status: 429 }),
+      };
+
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      const result = await orchestrator.execute(
+        buildWorkflow({ maxAttempts: 2, initialDelayMs: 0, retryOn: { statuses: [429] } }),
+        mockExecution
+      );
+
+      expect(result).toEqual({ status: 429 });
+      expect(mockExecutor.run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop waiting to retry when the execution is cancelled', async () => {
+      const mockExecutor = {
+        run: vi.fn(async () => {
+          setTimeout(() => abortExecution('exec-1'), 10);
+          return { status: 429 };
+        }),
+      };
+
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      const startedAt = Date.now();
+      await expect(orchestrator.execute(
+        buildWorkflow({ maxAttempts: 3, initialDelayMs: 30_000, retryOn: { statuses: [429] } }),
+        mockExecution
+      )).rejects.toThrow("Execution 'exec-1' was cancelled");
+
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(mockExecutor.run).toHaveBeenCalledTimes(1);
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({ status: 'cancelled' }));
+    });
+  });
+
+  describe('Timeouts', () => {
+    const buildWorkflow = (overrides: Partial<WorkflowModel> = {}): WorkflowModel => ({
+      id: 'workflow-17',
+      name: 'Timeout Workflow',
+      parameterSchema: {},
+      nodes: [
+        { id: 'first', type: 'llm', config: {} },
+        { id: 'second', type: 'llm', config: {} },
+      ],
+      edges: [{ id: 'e1', from: 'first', to: 'second' }],
+      startNode: 'first',
+      endNode: 'second',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+    it('should time out a hanging node and mark it timed_out', async () => {
+      const workflow = buildWorkflow();
+      workflow.nodes[0].timeoutMs = 20;
+
+      const mockExecutor = {
+        run: vi.fn(() => new Promise(() => {})),
+      };
+
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      await expect(orchestrator.execute(workflow, mockExecution)).rejects.toThrow("Node 'first' timed out after 20ms");
+
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({ status: 'timed_out' }));
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({ status: 'timed_out' }));
+    });
+
+    it('should abort the running executor when the workflow deadline passes', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const mockExecutor = {
+        run: vi.fn(async (node: any, _input: any, options: any) => {
+          receivedSignal = options.signal;
+          await new Promise((resolve) => setTimeout(resolve, 25));
+          return { id: node.id };
+        }),
+      };
+
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      await expect(orchestrator.execute(buildWorkflow({ deadlineMs: 40 }), mockExecution)).rejects.toThrow(
+        "Workflow 'workflow-17' exceeded its deadline of 40ms"
+      );
+
+      expect(receivedSignal?.aborted).toBe(true);
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({ status: 'timed_out' }));
+    });
+  });
+
+  describe('Error Edges', () => {
+    it('should route a failed node to its error handler with error details', async () => {
+      const workflow: WorkflowModel = {
+        id: 'workflow-18',
+        name: 'Fallback Workflow',
+        parameterSchema: {},
+        nodes: [
+          { id: 'primary', type: 'llm', config: { model: 'large', prompt: '{{parameters.userId}}' } },
+          { id: 'fallback', type: 'llm', config: { model: 'small', prompt: '{{error.input.prompt}}' } },
+          { id: 'end', type: 'data_transformer', config: { template: {} } },
+        ],
+        edges: [
+          { id: 'e1', from: 'primary', to: 'end' },
+          { id: 'e2', from: 'primary', onError: 'fallback' },
+          { id: 'e3', from: 'fallback', to: 'end' },
+        ],
+        startNode: 'primary',
+        endNode: 'end',
+        state: {},
+        maxIterations: 100,
+        defaultConfigId: 'defaultConfigId',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const mockExecutor = {
+        run: vi.fn(async (node: any, input: any) => {
+          if (node.id === 'primary') {
+            throw Object.assign(new Error('Rate limited'), { status: 429 });
+          }
+          if (node.id === 'fallback') {
+            return { error: input.error };
+          }
+          return input.parent.fallback;
+        }),
+      };
+
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      const result = await orchestrator.execute(workflow, mockExecution);
+
+      expect(result).toEqual({
+        error: {
+          message: 'Rate limited',
+          name: 'Error',
+          status: 429,
+          nodeId: 'primary',
+          input: { model: 'large', prompt: '123' },
+        },
+      });
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({ status: 'completed' }));
+    });
+  });
+
+  describe('Checkpoints', () => {
+    const workflow: WorkflowModel = {
+      id: 'workflow-19',
+      name: 'Checkpointed Workflow',
+      parameterSchema: {},
+      nodes: [
+        { id: 'node1', type: 'data_transformer', config: { template: {} } },
+        { id: 'node2', type: 'data_transformer', config: { template: {} } },
+        { id: 'node3', type: 'data_transformer', config: { template: {} } },
+      ],
+      edges: [
+        { id: 'e1', from: 'node1', to: 'node2' },
+        { id: 'e2', from: 'node2', to: 'node3' },
+      ],
+      startNode: 'node1',
+      endNode: 'node3',
+      state: { count: 0 },
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should persist a checkpoint after each completed node', async () => {
+      const mockExecutor = {
+        run: vi.fn(async (node: any) => ({ from: node.id })),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      await orchestrator.execute(workflow, mockExecution);
+
+      const checkpoints = mockExecutionRepo.update.mock.calls
+        .map(([, data]: any[]) => data.checkpoint)
+        .filter(Boolean);
+
+      expect(checkpoints.map((checkpoint: any) => checkpoint.nextNodeId)).toEqual(['node2', 'node3']);
+      expect(checkpoints[1]).toEqual(expect.objectContaining({
+        nodeOutputs: { node1: { from: 'node1' }, node2: { from: 'node2' } },
+        state: { count: 0 },
+        iterations: 2,
+      }));
+    });
+
+    it('should resume from the checkpointed node with restored outputs and state', async () => {
+      const mockExecutor = {
+        run: vi.fn(async (node: any, input: any) => ({ parent: input.parent, state: input.state })),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      const result = await orchestrator.execute(workflow, mockExecution, {
+        nextNodeId: 'node3',
+        nodeOutputs: { node1: { value: 1 }, node2: { value: 2 } },
+        state: { count: 5 },
+        iterations: 2,
+        updatedAt: new Date().toISOString(),
+      });
+
+      expect(mockExecutor.run).toHaveBeenCalledTimes(1);
+      expect(mockExecutor.run.mock.calls[0][0].id).toBe('node3');
+      expect(result).toEqual({
+        parent: { node1: { value: 1 }, node2: { value: 2 } },
+        state: { count: 5 },
+      });
+    });
+
+    it('should refresh the heartbeat while a long node runs and stop once the run ends', async () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      try {
+        const mockExecutor = {
+          run: vi.fn(async (node: any) => {
+            if (node.id === 'node2') {
+              // Longer than the 60 seconds after which a silent run may be resumed
+              vi.advanceTimersByTime(90_000);
+            }
+            return { from: node.id };
+          }),
+        };
+        mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+        await orchestrator.execute({ ...workflow, id: 'workflow-42' }, mockExecution);
+        vi.advanceTimersByTime(90_000);
+
+        expect(mockExecutionRepo.heartbeat).toHaveBeenCalledTimes(6);
+        expect(mockExecutionRepo.heartbeat).toHaveBeenCalledWith('exec-1');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('Wait For Input', () => {
+    const workflow: WorkflowModel = {
+      id: 'workflow-20',
+      name: 'Approval Workflow',
+      parameterSchema: {},
+      nodes: [
+        { id: 'draft', type: 'data_transformer', config: { template: {} } },
+        {
+          id: 'approval',
+          type: 'wait_for_input',
+          config: { schema: { type: 'object', required: ['approved'] } },
+          setState: [{ key: 'approved', template: '{{output.approved}}' }],
+        },
+        { id: 'send', type: 'data_transformer', config: { template: {} } },
+      ],
+      edges: [
+        { id: 'e1', from: 'draft', to: 'approval' },
+        { id: 'e2', from: 'approval', to: 'send' },
+      ],
+      startNode: 'draft',
+      endNode: 'send',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should suspend at the wait_for_input node with a waiting status', async () => {
+      const mockExecutor = {
+        run: vi.fn().mockResolvedValue({ body: 'Hello' }),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      const result = await orchestrator.execute(workflow, mockExecution);
+
+      expect(result).toBeUndefined();
+      expect(mockExecutor.run).toHaveBeenCalledTimes(1);
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', { status: 'waiting' });
+      expect(mockExecutionRepo.update).toHaveBeenCalledWith('exec-1', {
+        checkpoint: expect.objectContaining({ nextNodeId: 'approval', nodeOutputs: { draft: { body: 'Hello' } } }),
+      });
+    });
+
+    it('should use the submitted input as the node output when resumed', async () => {
+      const mockExecutor = {
+        run: vi.fn(async (node: any, input: any) => ({ approval: input.parent.approval, state: input.state })),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      const result = await orchestrator.execute(workflow, mockExecution, {
+        nextNodeId: 'approval',
+        nodeOutputs: { draft: { body: 'Hello' } },
+        state: {},
+        iterations: 2,
+        updatedAt: new Date().toISOString(),
+        input: { approved: true },
+      });
+
+      expect(mockExecutor.run).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ approval: { approved: true }, state: { approved: true } });
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({
+        status: 'completed',
+        output: { approved: true },
+      }));
+    });
+  });
+
+  describe('Cancellation', () => {
+    const workflow: WorkflowModel = {
+      id: 'workflow-21',
+      name: 'Cancellable Workflow',
+      parameterSchema: {},
+      nodes: [
+        { id: 'node1', type: 'llm', config: { model: 'large', prompt: 'hi' } },
+        { id: 'node2', type: 'data_transformer', config: { template: {} } },
+      ],
+      edges: [{ id: 'e1', from: 'node1', to: 'node2' }],
+      startNode: 'node1',
+      endNode: 'node2',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should abort the running executor when the execution is cancelled', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const mockExecutor = {
+        run: vi.fn((node: any, input: any, options: any) => {
+          receivedSignal = options.signal;
+          setTimeout(() => abortExecution('exec-1'), 10);
+          return new Promise(() => {});
+        }),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      await expect(orchestrator.execute(workflow, mockExecution)).rejects.toThrow("Execution 'exec-1' was cancelled");
+
+      expect(receivedSignal?.aborted).toBe(true);
+      expect(mockExecutor.run).toHaveBeenCalledTimes(1);
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({ status: 'cancelled' }));
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({ status: 'cancelled' }));
+    });
+
+    it('should stop before the next node when another isolate cancelled the execution', async () => {
+      const mockExecutor = {
+        run: vi.fn(async () => {
+          mockExecutionRepo.findById.mockResolvedValue({ ...mockExecution, status: 'cancelled' });
+          return { value: 1 };
+        }),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      await expect(orchestrator.execute(workflow, mockExecution)).rejects.toThrow('was cancelled');
+
+      expect(mockExecutor.run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Routing', () => {
+    const baseWorkflow = {
+      parameterSchema: {},
+      nodes: [
+        { id: 'classify', type: 'data_transformer', config: { template: {} } },
+        { id: 'billing', type: 'data_transformer', config: { template: {} } },
+        { id: 'support', type: 'data_transformer', config: { template: {} } },
+        { id: 'end', type: 'data_transformer', config: { template: {} } },
+      ],
+      startNode: 'classify',
+      endNode: 'end',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should take the default target when no dynamic condition passes', async () => {
+      const workflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-22',
+        name: 'Dynamic Default Workflow',
+        edges: [
+          {
+            id: 'e1',
+            from: 'classify',
+            conditions: [{ node: 'billing', condition: 'parent.classify.topic == "billing"' }],
+            default: 'support',
+          },
+          { id: 'e2', from: 'billing', to: 'end' },
+          { id: 'e3', from: 'support', to: 'end' },
+        ],
+      };
+
+      const mockExecutor = {
+        run: vi.fn(async (node: any) => ({ topic: node.id === 'classify' ? 'other' : node.id })),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      await orchestrator.execute(workflow, mockExecution);
+
+      expect(mockExecutor.run.mock.calls.map(([node]: any[]) => node.id)).toEqual(['classify', 'support', 'end']);
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', {
+        route: { edgeId: 'e1', target: 'support', conditionIndex: null, condition: null, isDefault: true },
+      });
+    });
+
+    it('should route a switch edge by the value of its expression', async () => {
+      const workflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-23',
+        name: 'Switch Workflow',
+        edges: [
+          {
+            id: 'e1',
+            from: 'classify',
+            expression: 'parent.classify.topic',
+            cases: { billing: 'billing', support: 'support' },
+          },
+          { id: 'e2', from: 'billing', to: 'end' },
+          { id: 'e3', from: 'support', to: 'end' },
+        ],
+      };
+
+      const mockExecutor = {
+        run: vi.fn(async () => ({ topic: 'billing' })),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+
+      await orchestrator.execute(workflow, mockExecution);
+
+      expect(mockExecutor.run.mock.calls.map(([node]: any[]) => node.id)).toEqual(['classify', 'billing', 'end']);
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', {
+        route: { edgeId: 'e1', target: 'billing', value: 'billing', isDefault: false },
+      });
+    });
+
+    it('should record the edge taken after static, parallel and error edges', async () => {
+      const workflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-40',
+        name: 'Recorded Routes Workflow',
+        nodes: [
+          ...baseWorkflow.nodes,
+          { id: 'lookup', type: 'data_transformer', config: { template: {} } },
+          { id: 'merge', type: 'join', config: {} },
+        ],
+        edges: [
+          { id: 'e1', from: 'classify', to: 'end' },
+          { id: 'e2', from: 'classify', onError: 'support' },
+          { id: 'e3', from: 'support', branches: ['billing', 'lookup'], join: 'merge' },
+          { id: 'e4', from: 'billing', to: 'merge' },
+          { id: 'e5', from: 'lookup', to: 'merge' },
+          { id: 'e6', from: 'merge', to: 'end' },
+        ],
+      };
+
+      mockNodeExecRepo.create.mockImplementation(async (record: any) => ({ id: `node-exec-${record.nodeId}` }));
+      mockNodeFactory.getExecutor.mockResolvedValue({
+        run: vi.fn(async (node: any) => {
+          if (node.id === 'classify') {
+            throw new Error('Classifier unavailable');
+          }
+          return { from: node.id };
+        }),
+      });
+
+      await orchestrator.execute(workflow, mockExecution);
+
+      const routes = Object.fromEntries(
+        mockNodeExecRepo.update.mock.calls
+          .filter(([, data]: any[]) => data.route)
+          .map(([id, data]: any[]) => [id, data.route])
+      );
+      expect(routes).toEqual({
+        'node-exec-classify': { edgeId: 'e2', target: 'support', isDefault: false, onError: true },
+        'node-exec-support': { edgeId: 'e3', target: 'merge', branches: ['billing', 'lookup'], isDefault: false },
+        'node-exec-billing': { edgeId: 'e4', target: 'merge', isDefault: false },
+        'node-exec-lookup': { edgeId: 'e5', target: 'merge', isDefault: false },
+        'node-exec-merge': { edgeId: 'e6', target: 'end', isDefault: false },
+      });
+    });
+
+    it('should fail when no switch case matches and there is no default', async () => {
+      const workflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-24',
+        name: 'Switch Without Default Workflow',
+        edges: [
+          { id: 'e1', from: 'classify', expression: 'parent.classify.topic', cases: { billing: 'billing' } },
+          { id: 'e2', from: 'billing', to: 'end' },
+          { id: 'e3', from: 'support', to: 'end' },
+        ],
+      };
+
+      mockNodeFactory.getExecutor.mockResolvedValue({ run: vi.fn(async () => ({ topic: 'sales' })) });
+
+      await expect(orchestrator.execute(workflow, mockExecution)).rejects.toThrow(
+        "Failed to evaluate switch edge 'e1': No case matches value 'sales' and no default is set"
+      );
+    });
+  });
+
+  describe('Workflow Output', () => {
+    const baseWorkflow = {
+      parameterSchema: {},
+      nodes: [
+        { id: 'search', type: 'data_transformer', config: { template: {} } },
+        { id: 'answer', type: 'llm', config: { model: 'test' } },
+      ],
+      edges: [{ id: 'e1', from: 'search', to: 'answer' }],
+      startNode: 'search',
+      endNode: 'answer',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+      mockNodeFactory.getExecutor.mockResolvedValue({
+        run: vi.fn(async (node: any) =>
+          node.id === 'search'
+            ? { matches: [{ id: 'doc-1' }] }
+            : { result: 'Hello', usage: { total_tokens: 12 }, finish_reason: 'stop' }
+        ),
+      });
+    });
+
+    it('should shape the result with the output template', async () => {
+      const workflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-25',
+        name: 'Shaped Output Workflow',
+        output: { answer: '{{output.result}}', sources: '{{parent.search.matches}}', user: '{{parameters.userId}}' },
+        outputSchema: {
+          type: 'object',
+          required: ['answer', 'sources'],
+          properties: { answer: { type: 'string' }, sources: { type: 'array' } },
+        },
+      };
+
+      const result = await orchestrator.execute(workflow, mockExecution);
+
+      expect(result).toEqual({ answer: 'Hello', sources: [{ id: 'doc-1' }], user: '123' });
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+        status: 'completed',
+        result: { answer: 'Hello', sources: [{ id: 'doc-1' }], user: '123' },
+      }));
+    });
+
+    it('should fail the execution when the result does not match outputSchema', async () => {
+      const workflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-26',
+        name: 'Strict Output Workflow',
+        outputSchema: { type: 'object', required: ['answer'] },
+      };
+
+      await expect(orchestrator.execute(workflow, mockExecution)).rejects.toThrow(
+        "Output of workflow 'Strict Output Workflow' does not match its outputSchema: answer: Required"
+      );
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({ status: 'failed' }));
+    });
+  });
+
+  describe('Sub-workflows', () => {
+    it('should stop workflows that keep calling each other at the maximum nesting depth', async () => {
+      const workflow: WorkflowModel = {
+        id: 'workflow-27',
+        name: 'Recursive Workflow',
+        parameterSchema: {},
+        nodes: [
+          { id: 'recurse', type: 'workflow_executor', config: { workflow_id: '{{parameters.next}}', parameters: { next: 'workflow-27' } } },
+        ],
+        edges: [],
+        startNode: 'recurse',
+        endNode: 'recurse',
+        state: {},
+        maxIterations: 100,
+        defaultConfigId: 'defaultConfigId',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      mockWorkflowRepo.findById.mockResolvedValue(workflow);
+
+      await expect(orchestrator.execute(workflow, { ...mockExecution, parameters: { next: 'workflow-27' } })).rejects.toThrow(
+        'above the maximum of 10'
+      );
+      // One sub-execution for each depth from 1 to 10
+      expect(mockExecutionRepo.create).toHaveBeenCalledTimes(10);
+    });
+  });
+
+  describe('Token Usage', () => {
+    // Each node reads the previous one, so `dag` mode runs them one after another too
+    const baseWorkflow = {
+      parameterSchema: {},
+      nodes: [
+        { id: 'draft', type: 'llm', config: { model: 'test', prompt: '{{parameters.userId}}' } },
+        { id: 'review', type: 'llm', config: { model: 'test', prompt: '{{parent.draft.result}}' } },
+        { id: 'polish', type: 'llm', config: { model: 'test', prompt: '{{parent.review.result}}' } },
+      ],
+      edges: [
+        { id: 'e1', from: 'draft', to: 'review' },
+        { id: 'e2', from: 'review', to: 'polish' },
+      ],
+      startNode: 'draft',
+      endNode: 'polish',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    let mockExecutor: any;
+
+    beforeEach(() => {
+      mockExecutor = {
+        run: vi.fn().mockResolvedValue({
+          result: 'text',
+          model: 'workers-ai/test',
+          usage: { prompt_tokens: 6, completion_tokens: 4, total_tokens: 10 },
+        }),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue(mockExecutor);
+    });
+
+    it('should record usage per node and the priced total on the execution', async () => {
+      const workflow: WorkflowModel = { ...baseWorkflow, id: 'workflow-30', name: 'Usage Workflow' };
+      const execution = { ...mockExecution, config: { modelPrices: { test: { prompt: 1, completion: 2 } } } };
+
+      await orchestrator.execute(workflow, execution);
+
+      const nodeUsage = { promptTokens: 6, completionTokens: 4, totalTokens: 10, cost: 0.000014 };
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({
+        status: 'completed',
+        usage: nodeUsage,
+      }));
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+        status: 'completed',
+        usage: { promptTokens: 18, completionTokens: 12, totalTokens: 30, cost: expect.closeTo(0.000042, 9) },
+      }));
+    });
+
+    it('should fail the execution once it uses more tokens than its budget', async () => {
+      const workflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-31',
+        name: 'Budgeted Workflow',
+        budget: { maxTokens: 15 },
+      };
+
+      await expect(orchestrator.execute(workflow, mockExecution)).rejects.toThrow(
+        'Execution used 20 tokens, exceeding its budget of 15'
+      );
+      expect(mockExecutor.run).toHaveBeenCalledTimes(2);
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+        status: 'failed',
+        error: 'Execution used 20 tokens, exceeding its budget of 15',
+      }));
+    });
+
+    it('should count sub-workflow usage against the parent budget', async () => {
+      const subWorkflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-32',
+        name: 'Summary Workflow',
+        nodes: [baseWorkflow.nodes[0]],
+        edges: [],
+        endNode: 'draft',
+      };
+      mockWorkflowRepo.findById.mockResolvedValue(subWorkflow);
+
+      const workflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-33',
+        name: 'Calling Workflow',
+        nodes: [
+          { id: 'summarise', type: 'workflow_executor', config: { workflow_id: 'workflow-32', parameters: {} } },
+          { id: 'answer', type: 'llm', config: { model: 'test', prompt: '{{parent.summarise.result}}' } },
+        ],
+        edges: [{ id: 'e1', from: 'summarise', to: 'answer' }],
+        startNode: 'summarise',
+        endNode: 'answer',
+        budget: { maxTokens: 25 },
+      };
+
+      await orchestrator.execute(workflow, mockExecution);
+
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('sub-exec-1', expect.objectContaining({
+        status: 'completed',
+        usage: { promptTokens: 6, completionTokens: 4, totalTokens: 10, cost: 0 },
+      }));
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+        status: 'completed',
+        usage: { promptTokens: 12, completionTokens: 8, totalTokens: 20, cost: 0 },
+      }));
+    });
+
+    it('should require a price for every model when the budget limits cost', async () => {
+      const workflow: WorkflowModel = {
+        ...baseWorkflow,
+        id: 'workflow-34',
+        name: 'Cost Budget Workflow',
+        budget: { maxCost: 1 },
+      };
+
+      await expect(orchestrator.execute(workflow, mockExecution)).rejects.toThrow(
+        "No price for model 'workers-ai/test' in the modelPrices config variable"
+      );
+    });
+  });
+
+  describe('Tracing', () => {
+    const summaryWorkflow: WorkflowModel = {
+      id: 'workflow-36',
+      name: 'Summary Workflow',
+      parameterSchema: {},
+      nodes: [{ id: 'draft', type: 'llm', config: { model: 'test', prompt: 'Summarise' } }],
+      edges: [],
+      startNode: 'draft',
+      endNode: 'draft',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const callingWorkflow: WorkflowModel = {
+      ...summaryWorkflow,
+      id: 'workflow-37',
+      name: 'Calling Workflow',
+      nodes: [
+        { id: 'summarise', type: 'workflow_executor', config: { workflow_id: 'workflow-36', parameters: {} } },
+        { id: 'answer', type: 'llm', config: { model: 'test', prompt: '{{parent.summarise.result}}' } },
+      ],
+      edges: [{ id: 'e1', from: 'summarise', to: 'answer' }],
+      startNode: 'summarise',
+      endNode: 'answer',
+    };
+
+    const tracedExecution = () => ({ ...mockExecution, config: { OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318' } });
+
+    const exportedSpans = (fetchSpy: any): Record<string, any> => {
+      const [, request] = fetchSpy.mock.calls[0];
+      const spans = JSON.parse(request.body).resourceSpans[0].scopeSpans[0].spans;
+      return Object.fromEntries(spans.map((span: any) => [span.name, span]));
+    };
+
+    let fetchSpy: any;
+
+    beforeEach(() => {
+      fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+      mockWorkflowRepo.findById.mockResolvedValue(summaryWorkflow);
+      mockNodeFactory.getExecutor.mockResolvedValue({
+        run: vi.fn().mockResolvedValue({
+          result: 'text',
+          model: 'workers-ai/test',
+          usage: { prompt_tokens: 6, completion_tokens: 4, total_tokens: 10 },
+        }),
+      });
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    it('should export one trace with node spans, nested under the caller and workflow_executor spans', async () => {
+      const traceParent = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+
+      await orchestrator.execute(callingWorkflow, tracedExecution(), undefined, { traceParent });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(fetchSpy.mock.calls[0][0]).toBe('http://localhost:4318/v1/traces');
+
+      const spans = exportedSpans(fetchSpy);
+      expect(Object.keys(spans).sort()).toEqual([
+        'node answer', 'node draft', 'node summarise', 'workflow Calling Workflow', 'workflow Summary Workflow',
+      ]);
+      expect(Object.values(spans).every((span: any) => span.traceId === '4bf92f3577b34da6a3ce929d0e0e4736')).toBe(true);
+
+      expect(spans['workflow Calling Workflow'].parentSpanId).toBe('00f067aa0ba902b7');
+      expect(spans['node summarise'].parentSpanId).toBe(spans['workflow Calling Workflow'].spanId);
+      expect(spans['workflow Summary Workflow'].parentSpanId).toBe(spans['node summarise'].spanId);
+      expect(spans['node draft'].parentSpanId).toBe(spans['workflow Summary Workflow'].spanId);
+
+      expect(spans['node answer'].status).toEqual({ code: 1 });
+      expect(spans['node answer'].attributes).toEqual(expect.arrayContaining([
+        { key: 'node.type', value: { stringValue: 'llm' } },
+        { key: 'gen_ai.request.model', value: { stringValue: 'workers-ai/test' } },
+        { key: 'gen_ai.usage.input_tokens', value: { intValue: '6' } },
+        { key: 'gen_ai.usage.output_tokens', value: { intValue: '4' } },
+        { key: 'node.status', value: { stringValue: 'completed' } },
+      ]));
+      expect(spans['workflow Calling Workflow'].attributes).toEqual(expect.arrayContaining([
+        { key: 'gen_ai.usage.input_tokens', value: { intValue: '12' } },
+      ]));
+    });
+
+    it('should mark the failing node and the execution as errors', async () => {
+      mockNodeFactory.getExecutor.mockResolvedValue({ run: vi.fn().mockRejectedValue(new Error('Model overloaded')) });
+
+      await expect(orchestrator.execute(summaryWorkflow, tracedExecution())).rejects.toThrow('Model overloaded');
+
+      const spans = exportedSpans(fetchSpy);
+      expect(spans['workflow Summary Workflow'].parentSpanId).toBeUndefined();
+      expect(spans['node draft'].status).toEqual({ code: 2, message: 'Model overloaded' });
+      expect(spans['node draft'].attributes).toEqual(expect.arrayContaining([
+        { key: 'node.status', value: { stringValue: 'failed' } },
+        { key: 'gen_ai.request.model', value: { stringValue: 'test' } },
+        { key: 'error.type', value: { stringValue: 'Error' } },
+      ]));
+      expect(spans['workflow Summary Workflow'].status).toEqual({ code: 2, message: 'Model overloaded' });
+    });
+
+    it('should not export traces without an exporter endpoint', async () => {
+      await orchestrator.execute(callingWorkflow, mockExecution);
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Node Execution Records', () => {
+    it('should record the resolved input with secret values scrubbed, the state diff, duration and iteration', async () => {
+      const workflow: WorkflowModel = {
+        id: 'workflow-35',
+        name: 'Recorded Workflow',
+        parameterSchema: {},
+        nodes: [
+          { id: 'start', type: 'data_transformer', config: { template: {} } },
+          {
+            id: 'fetch',
+            type: 'http_request',
+            config: {
+              url: '{{config.apiUrl}}/users/{{parameters.userId}}',
+              headers: { Authorization: 'Bearer {{config.apiToken}}', 'X-Echo': '{{config.apiToken}}' },
+            },
+            setState: [{ key: 'fetched', template: '{{state.fetched + 1}}' }],
+          },
+        ],
+        edges: [{ id: 'e1', from: 'start', to: 'fetch' }],
+        startNode: 'start',
+        endNode: 'fetch',
+        state: { fetched: 0, untouched: true },
+        maxIterations: 100,
+        defaultConfigId: 'defaultConfigId',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue({ run: vi.fn().mockResolvedValue({ status: 200 }) });
+
+      await orchestrator.execute(workflow, {
+        ...mockExecution,
+        config: { apiUrl: 'https://api.example.com', apiToken: 'secret-token-1' },
+      });
+
+      expect(mockNodeExecRepo.create).toHaveBeenCalledWith(expect.objectContaining({ nodeId: 'start', iteration: 1 }));
+      expect(mockNodeExecRepo.create).toHaveBeenCalledWith(expect.objectContaining({ nodeId: 'fetch', iteration: 2 }));
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({
+        status: 'completed',
+        input: {
+          url: 'https://api.example.com/users/123',
+          headers: { Authorization: 'Bearer [REDACTED]', 'X-Echo': '[REDACTED]' },
+        },
+        stateDiff: { fetched: { before: 0, after: 1 } },
+        durationMs: expect.any(Number),
+      }));
+    });
+
+    it('should keep settings whose keys only look like secrets in the recorded input', async () => {
+      const workflow: WorkflowModel = {
+        id: 'workflow-39',
+        name: 'Recorded LLM Workflow',
+        parameterSchema: {},
+        nodes: [
+          { id: 'answer', type: 'llm', config: { model: 'large', prompt: 'Hello', max_tokens: 256, tokenizer: 'cl100k' } },
+        ],
+        edges: [],
+        startNode: 'answer',
+        endNode: 'answer',
+        state: {},
+        maxIterations: 100,
+        defaultConfigId: 'defaultConfigId',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      mockNodeFactory.getExecutor.mockResolvedValue({ run: vi.fn().mockResolvedValue({ text: 'Hi' }) });
+
+      await orchestrator.execute(workflow, mockExecution);
+
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({
+        status: 'completed',
+        input: { model: 'large', prompt: 'Hello', max_tokens: 256, tokenizer: 'cl100k' },
+      }));
+    });
+  });
+
+  describe('Secrets', () => {
+    const secret = 'postgres://app:pw@db';
+
+    const workflow: WorkflowModel = {
+      id: 'workflow-38',
+      name: 'Secret Workflow',
+      parameterSchema: {},
+      nodes: [{ id: 'query', type: 'sql_query', config: { connection: '{{config.DB_URL}}' } }],
+      edges: [],
+      startNode: 'query',
+      endNode: 'query',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const secretExecution = () => ({ ...mockExecution, config: { DB_URL: secret } });
+
+    it('should scrub secret values from persisted outputs and results', async () => {
+      mockNodeFactory.getExecutor.mockResolvedValue({
+        run: vi.fn().mockResolvedValue({ message: `Connected to ${secret}`, usage: { prompt_tokens: 3 } }),
+      });
+
+      await orchestrator.execute(workflow, secretExecution(), undefined, { secrets: [secret] });
+
+      const scrubbed = { message: 'Connected to [REDACTED]', usage: { prompt_tokens: 3 } };
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({
+        status: 'completed',
+        input: { connection: '[REDACTED]' },
+        output: scrubbed,
+      }));
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+        status: 'completed',
+        result: scrubbed,
+      }));
+    });
+
+    it('should scrub secret values from error messages', async () => {
+      mockNodeFactory.getExecutor.mockResolvedValue({
+        run: vi.fn().mockRejectedValue(new Error(`Could not reach ${secret}`)),
+      });
+
+      await expect(orchestrator.execute(workflow, secretExecution(), undefined, { secrets: [secret] })).rejects.toThrow();
+
+      expect(mockNodeExecRepo.update).toHaveBeenCalledWith('node-exec-1', expect.objectContaining({
+        status: 'failed',
+        error: 'Could not reach [REDACTED]',
+      }));
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+        status: 'failed',
+        error: 'Could not reach [REDACTED]',
+      }));
+    });
+
+    it('should scrub secret values from stream events', async () => {
+      mockNodeFactory.getExecutor.mockResolvedValue({
+        run: vi.fn().mockResolvedValue({ message: `Connected to ${secret}` }),
+      });
+
+      mockExecutionRepo.updateStatus = vi.fn().mockResolvedValue(undefined);
+
+      const response = await orchestrator.executeWithStreaming(workflow, secretExecution(), undefined, undefined, {
+        secrets: [secret],
+      });
+      const body = await (response as Response).text();
+
+      expect(body).toContain('"type":"node_complete"');
+      expect(body).toContain('Connected to [REDACTED]');
+      expect(body).not.toContain(secret);
+    });
+  });
+
+  describe('Threads', () => {
+    const workflow: WorkflowModel = {
+      id: 'workflow-29',
+      name: 'Chat Workflow',
+      parameterSchema: {},
+      nodes: [
+        {
+          id: 'reply',
+          type: 'llm',
+          config: { model: 'test' },
+          setState: [
+            { key: 'turns', template: '{{state.turns + 1}}' },
+            { key: 'lastMessage', template: '{{parameters.message}}' },
+          ],
+        },
+      ],
+      edges: [],
+      startNode: 'reply',
+      endNode: 'reply',
+      state: { turns: 1, topic: 'billing' },
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should save the final state to the thread of the execution', async () => {
+      mockNodeFactory.getExecutor.mockResolvedValue({ run: vi.fn().mockResolvedValue({ result: 'Sure' }) });
+
+      await orchestrator.execute(workflow, { ...mockExecution, parameters: { message: 'Help' }, threadId: 'thread-1' });
+
+      expect(mockThreadRepo.update).toHaveBeenCalledWith('thread-1', {
+        state: { turns: 2, topic: 'billing', lastMessage: 'Help' },
+        lastExecutionId: 'exec-1',
+      });
+    });
+
+    it('should leave the thread unchanged when the execution fails', async () => {
+      mockNodeFactory.getExecutor.mockResolvedValue({ run: vi.fn().mockRejectedValue(new Error('Model unavailable')) });
+
+      await expect(
+        orchestrator.execute(workflow, { ...mockExecution, parameters: { message: 'Help' }, threadId: 'thread-1' })
+      ).rejects.toThrow('Model unavailable');
+      expect(mockThreadRepo.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe.runIf(executionMode === 'dag')('DAG Scheduling', () => {
+    const workflow: WorkflowModel = {
+      id: 'workflow-28',
+      name: 'DAG Workflow',
+      parameterSchema: {},
+      nodes: [
+        { id: 'fetch', type: 'data_transformer', config: { template: { query: '{{parameters.userId}}' } } },
+        { id: 'embed', type: 'data_transformer', config: { template: { text: '{{parameters.userId}}' } } },
+        { id: 'format', type: 'data_transformer', config: { template: { docs: '{{parent.fetch.value}}' } } },
+        { id: 'answer', type: 'data_transformer', config: { template: { a: '{{parent.embed.value}}', b: '{{parent.format.value}}' } } },
+        { id: 'end', type: 'data_transformer', config: { template: {} } },
+      ],
+      edges: [
+        { id: 'e1', from: 'fetch', to: 'embed' },
+        { id: 'e2', from: 'embed', to: 'format' },
+        { id: 'e3', from: 'format', to: 'answer' },
+        { id: 'e4', from: 'answer', to: 'end' },
+      ],
+      startNode: 'fetch',
+      endNode: 'end',
+      state: {},
+      maxIterations: 100,
+      defaultConfigId: 'defaultConfigId',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should run nodes without data dependencies concurrently and wait for the ones they reference', async () => {
+      const events: string[] = [];
+      mockNodeFactory.getExecutor.mockResolvedValue({
+        run: vi.fn(async (node: any, input: any) => {
+          events.push(`start:${node.id}`);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          events.push(`end:${node.id}`);
+          return { value: node.id, seen: Object.keys(input.parent).sort() };
+        }),
+      });
+
+      const result = await orchestrator.execute(workflow, mockExecution);
+
+      // embed only reads parameters, so it starts together with fetch
+      expect(events.slice(0, 2)).toEqual(['start:fetch', 'start:embed']);
+      expect(events.indexOf('start:format')).toBeGreaterThan(events.indexOf('end:fetch'));
+      expect(events.indexOf('start:answer')).toBeGreaterThan(events.indexOf('end:format'));
+      expect(result).toEqual({ value: 'end', seen: ['answer', 'embed', 'fetch', 'format'] });
+    });
+
+    it('should record the static edge each node of a segment left by', async () => {
+      mockNodeExecRepo.create.mockImplementation(async (record: any) => ({ id: `node-exec-${record.nodeId}` }));
+      mockNodeFactory.getExecutor.mockResolvedValue({ run: vi.fn(async (node: any) => ({ value: node.id })) });
+
+      await orchestrator.execute(workflow, mockExecution);
+
+      const routes = mockNodeExecRepo.update.mock.calls
+        .filter(([, data]: any[]) => data.route)
+        .map(([id, data]: any[]) => [id, data.route.edgeId]);
+      expect(Object.fromEntries(routes)).toEqual({
+        'node-exec-fetch': 'e1',
+        'node-exec-embed': 'e2',
+        'node-exec-format': 'e3',
+        'node-exec-answer': 'e4',
+      });
+    });
+
+    it('should keep nodes that write state in order', async () => {
+      const events: string[] = [];
+      mockNodeFactory.getExecutor.mockResolvedValue({
+        run: vi.fn(async (node: any) => {
+          events.push(`start:${node.id}`);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          events.push(`end:${node.id}`);
+          return { value: node.id };
+        }),
+      });
+
+      await orchestrator.execute({
+        ...workflow,
+        nodes: workflow.nodes.map((node) =>
+          node.id === 'fetch' || node.id === 'embed'
+            ? { ...node, setState: [{ key: 'last', template: '{{output.value}}' }] }
+            : node
+        ),
+      }, mockExecution);
+
+      expect(events.indexOf('start:embed')).toBeGreaterThan(events.indexOf('end:fetch'));
+    });
+  });
+});
+
+describe('WorkflowOrchestrator execution modes', () => {
+  it('should produce the same results in dag mode as in sequential mode', () => {
+    const testNames = Object.keys(resultsByMode.sequential).filter((name) => name in resultsByMode.dag);
+
+    expect(testNames.length).toBeGreaterThan(0);
+    for (const name of testNames) {
+      expect({ name, results: resultsByMode.dag[name] }).toEqual({ name, results: resultsByMode.sequential[name] });
+    }
+  });
 });
@@ -1,9 +1,53 @@
 import { NodeExecutionRepository } from '../repositories/node-execution.repository';
 import { ExecutionRepository } from '../repositories/execution.repository';
+import { ThreadRepository } from '../repositories/thread.repository';
 import { NodeExecutorFactory } from './node-executor.factory';
-import type { ExecutionModel, WorkflowModel, NodeModel, DynamicEdge, Edge } from '../domain/entities';
+import type {
+	ExecutionModel,
+	WorkflowModel,
+	NodeModel,
+	NodeRetryPolicy,
+	DynamicEdge,
+	Edge,
+	ErrorEdge,
+	ExecutionCheckpoint,
+	NodeRoute,
+	ParallelEdge,
+	SwitchEdge,
+} from '../domain/entities';
+import {
+	BudgetExceededError,
+	CancelledError,
+	ExecutionSuspendedError,
+	RetryableStatusError,
+	SchemaValidationError,
+	TimeoutError,
+} from '../domain/errors';
 import { TemplateParser } from '../utils/template-parser';
+import { validateJsonSchema } from '../utils/json-schema';
+import { findSecretValues, scrubSecrets } from '../utils/redact';
 import { WorkflowService } from '../services/workflow.service';
+import { createTimeoutSignal, mapWithConcurrency, raceWithSignal, sleep } from '../utils/helpers';
+import { getRetryableStatus, getRetryDelay, isRetryableError } from './retry-policy';
+import { abortExecution, trackExecution } from './execution-registry';
+import { resolveParameters } from './workflow-parameters';
+import { findDataDependencies } from './node-dependencies';
+import { ModelPrices, UsageTracker } from './usage-tracker';
+import { CONTROL_NODE_TYPES } from './control-nodes';
+import { Span, SpanParent, startSpan, TraceContext, Tracer } from './tracing';
+
+// Stops workflows that call each other through dynamic `workflow_id`s, which the save-time check cannot see
+const MAX_WORKFLOW_DEPTH = 10;
+
+// Well under the 60 seconds without activity after which a `running` execution may be resumed
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export interface ExecutionRunOptions {
+	// Trace of the caller, from its `traceparent` header
+	traceParent?: TraceContext | null;
+	// Values of the config variables flagged as secret, which must not be persisted or streamed
+	secrets?: string[];
+}
 
 interface StreamingContext {
 	executionId: string;
@@ -11,6 +55,10 @@ interface StreamingContext {
 	parentExecutionId?: string;
 	path: string[];
 	onEvent?: (event: any) => void;
+	parentSignal?: AbortSignal;
+	parentUsage?: UsageTracker;
+	parentTrace?: SpanParent;
+	secrets?: string[];
 }
 
 interface TraversalContext {
@@ -22,50 +70,117 @@ interface TraversalContext {
 		sendEvent: (event: any) => void;
 		context: StreamingContext;
 	};
+	// Aborted when the workflow deadline passes or the execution (or a parent execution) is cancelled
+	signal?: AbortSignal;
+	resumeFrom?: ExecutionCheckpoint;
+	// Number of workflow_executor or map calls above this workflow
+	depth: number;
+	usage: UsageTracker;
+	// Span that the nodes of this context are recorded under, when the execution is traced
+	trace?: SpanParent;
+	// Config values scrubbed from everything persisted, streamed or traced
+	secrets: string[];
+}
+
+interface TraversalState {
+	nodeMap: Map<string, NodeModel>;
+	edgeMap: Map<string, Exclude<Edge, ErrorEdge>>;
+	errorEdgeMap: Map<string, ErrorEdge>;
+	nodeOutputs: Map<string, any>;
+	state: Record<string, any>;
+	iterations: number;
+	maxIterations: number;
+	// Input submitted on resume, consumed by the wait_for_input node it was meant for
+	pendingInput?: { nodeId: string; payload: any };
+}
+
+interface TraversalStep {
+	nodeId: string;
+	// Extra values merged into the node input, e.g. `branches` for join nodes
+	scope?: Record<string, any>;
+	// Edge that led to `nodeId`, recorded on the node execution it left
+	route?: NodeRoute;
+}
+
+interface NodeResult {
+	output: any;
+	nodeExecutionId: string;
 }
 
 export class WorkflowOrchestrator {
 	private readonly parser = new TemplateParser();
+	// Node execution that recorded each failure, so the error edge taken for it can be recorded there too
+	private readonly failedNodeExecutions = new WeakMap<object, string>();
 
 	constructor(
 		private nodeExecRepo: NodeExecutionRepository,
 		private executionRepo: ExecutionRepository,
 		private nodeFactory: NodeExecutorFactory,
-		private workflowService: WorkflowService
+		private workflowService: WorkflowService,
+		private threadRepo?: ThreadRepository
 	) {}
 
-	async execute(workflow: WorkflowModel, execution: ExecutionModel): Promise<any> {
+	async execute(
+		workflow: WorkflowModel,
+		execution: ExecutionModel,
+		resumeFrom?: ExecutionCheckpoint,
+		options: ExecutionRunOptions = {}
+	): Promise<any> {
+		const { traceParent } = options;
+		const tracer = Tracer.fromConfig(execution.config, traceParent);
+		const secrets = this.collectSecrets(execution.config, options.secrets);
+
 		try {
 			return await this.executeWorkflow(
 				workflow,
 				execution,
 				execution.parameters as Record<string, any>,
-				execution.config as Record<string, any> || {}
+				execution.config as Record<string, any> || {},
+				undefined,
+				resumeFrom,
+				0,
+				undefined,
+				tracer ? { tracer, spanId: traceParent?.spanId } : undefined,
+				secrets
 			);
 		} catch (error: any) {
-			await this.executionRepo.update(execution.id, {
-				status: 'failed',
-				error: error.message,
+			// Status writes skip executions that were cancelled in the meantime
+			if (error instanceof ExecutionSuspendedError) {
+				await this.executionRepo.updateUnlessFinished(execution.id, { status: 'waiting' });
+				return undefined;
+			}
+
+			await this.executionRepo.updateUnlessFinished(execution.id, {
+				status: this.getFailureStatus(error),
+				error: scrubSecrets(error.message, secrets),
 				completedAt: new Date(),
 			});
 			throw error;
+		} finally {
+			await tracer?.flush();
 		}
 	}
 
 	async executeWithStreaming(
 		workflow: WorkflowModel,
 		execution: ExecutionModel,
-		streamingContext?: StreamingContext
+		streamingContext?: StreamingContext,
+		resumeFrom?: ExecutionCheckpoint,
+		options: ExecutionRunOptions = {}
 	): Promise<Response | any> {
+		const { traceParent } = options;
 		const { readable, writable } = new TransformStream();
 		const writer = writable.getWriter();
 		const encoder = new TextEncoder();
 
+		const secrets = streamingContext?.secrets ?? this.collectSecrets(execution.config, options.secrets);
+
 		const sendEvent = (event: any) => {
 			if (streamingContext?.onEvent) {
 				streamingContext.onEvent(event);
 			} else {
-				const data = `data: ${JSON.stringify(event)}\n\n`;
+				// Nested workflows send through here too, so every event leaving the stream is scrubbed
+				const data = `data: ${JSON.stringify(scrubSecrets(event, secrets))}\n\n`;
 				writer.write(encoder.encode(data));
 			}
 		};
@@ -74,70 +189,122 @@ export class WorkflowOrchestrator {
 			executionId: execution.id,
 			depth: streamingContext?.depth || 0,
 			parentExecutionId: streamingContext?.parentExecutionId,
-			path: streamingContext?.path || []
+			path: streamingContext?.path || [],
+			parentSignal: streamingContext?.parentSignal,
+			parentUsage: streamingContext?.parentUsage,
+			parentTrace: streamingContext?.parentTrace,
+			secrets
 		};
 
-		this.runStreamingWorkflow(
+		// Nested workflows add their spans to the trace of the top-level execution, which exports it
+		const tracer = streamingContext ? null : Tracer.fromConfig(execution.config, traceParent);
+		if (tracer) {
+			context.parentTrace = { tracer, spanId: traceParent?.spanId };
+		}
+
+		const sendError = (error: any) => {
+			sendEvent({
+				type: 'error',
+				executionId: context.executionId,
+				depth: context.depth,
+				path: context.path,
+				data: { message: error.message },
+				timestamp: new Date().toISOString()
+			});
+		};
+
+		const run = this.runStreamingWorkflow(
 			workflow,
 			execution,
 			sendEvent,
 			context,
 			execution.parameters as Record<string, any>,
-			execution.config as Record<string, any> || {}
-		)
-			.catch((error) => {
-				sendEvent({
-					type: 'error',
-					executionId: context.executionId,
-					depth: context.depth,
-					path: context.path,
-					data: { message: error.message },
-					timestamp: new Date().toISOString()
-				});
-			})
-			.finally(() => {
-				if (!streamingContext?.onEvent) {
-					writer.close();
-				}
-			});
+			execution.config as Record<string, any> || {},
+			resumeFrom
+		);
 
-		if (!streamingContext?.onEvent) {
-			return new Response(readable, {
-				headers: {
-					'Content-Type': 'text/event-stream',
-					'Cache-Control': 'no-cache',
-					'Connection': 'keep-alive'
+		// Nested workflows forward events to the parent stream and hand their result back directly
+		if (streamingContext?.onEvent) {
+			try {
+				return await run;
+			} catch (error: any) {
+				// Cancellation was already reported with a workflow_cancelled event
+				if (!(error instanceof CancelledError)) {
+					sendError(error);
 				}
-			});
+				throw error;
+			}
 		}
 
-		return await this.waitForCompletion(execution.id);
+		run.catch(sendError).finally(async () => {
+			await tracer?.flush();
+			writer.close();
+		});
+
+		return new Response(readable, {
+			headers: {
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache',
+				'Connection': 'keep-alive'
+			}
+		});
 	}
 
 	private async executeWorkflow(
 		workflow: WorkflowModel,
 		execution: ExecutionModel,
 		workflowParameters: Record<string, any>,
-		workflowConfig: Record<string, any>
+		workflowConfig: Record<string, any>,
+		parentSignal?: AbortSignal,
+		resumeFrom?: ExecutionCheckpoint,
+		depth: number = 0,
+		parentUsage?: UsageTracker,
+		parentTrace?: SpanParent,
+		secrets: string[] = []
 	): Promise<any> {
 		this.workflowService.validateWorkflow(workflow);
 
-		const context: TraversalContext = {
-			workflow,
-			execution,
-			workflowParameters,
-			workflowConfig
-		};
+		const usage = this.createUsageTracker(workflow, workflowConfig, resumeFrom, parentUsage);
+		const cancellation = trackExecution(execution.id, this.withBudgetSignal(parentSignal, usage));
+		const deadline = this.createDeadlineSignal(workflow, cancellation.signal);
+		const heartbeat = this.startHeartbeat(execution.id);
+		const span = this.startExecutionSpan(workflow, execution, parentTrace);
 
-		const finalOutput = await this.executeWorkflowTraversal(context);
+		try {
+			const context: TraversalContext = {
+				workflow,
+				execution,
+				workflowParameters,
+				workflowConfig,
+				signal: deadline.signal,
+				resumeFrom,
+				depth,
+				usage,
+				trace: span?.asParent(),
+				secrets
+			};
 
-		await this.executionRepo.update(execution.id, {
-			status: 'completed',
-			result: finalOutput,
-			completedAt: new Date(),
-		});
+			const finalOutput = await this.executeWorkflowTraversal(context);
 
-		return finalOutput;
+			await this.executionRepo.updateUnlessFinished(execution.id, {
+				status: 'completed',
+				result: scrubSecrets(finalOutput, secrets),
+				usage: usage.totals,
+				completedAt: new Date(),
+			});
+
+			this.endExecutionSpan(span, usage, secrets);
+			return finalOutput;
+		} catch (error: any) {
+			this.endExecutionSpan(span, usage, secrets, error);
+			// Failed and waiting executions keep the usage of the nodes that did run
+			await this.executionRepo.update(execution.id, { usage: usage.totals });
+			throw error;
+		} finally {
+			deadline.clear();
+			heartbeat.stop();
+			cancellation.release();
+		}
 	}
 
 	private async runStreamingWorkflow(
@@ -146,8 +313,16 @@ export class WorkflowOrchestrator {
 		sendEvent: (event: any) => void,
 		context: StreamingContext,
 		workflowParameters: Record<string, any>,
-		workflowConfig: Record<string, any>
-	): Promise<void> {
+		workflowConfig: Record<string, any>,
+		resumeFrom?: ExecutionCheckpoint
+	): Promise<any> {
+		const usage = this.createUsageTracker(workflow, workflowConfig, resumeFrom, context.parentUsage);
+		const cancellation = trackExecution(execution.id, this.withBudgetSignal(context.parentSignal, usage));
+		const deadline = this.createDeadlineSignal(workflow, cancellation.signal);
+		const heartbeat = this.startHeartbeat(execution.id);
+		const span = this.startExecutionSpan(workflow, execution, context.parentTrace);
+		const secrets = context.secrets ?? [];
+
 		try {
 			sendEvent({
 				type: 'workflow_start',
@@ -169,17 +344,26 @@ export class WorkflowOrchestrator {
 				streaming: {
 					sendEvent,
 					context
-				}
+				},
+				signal: deadline.signal,
+				resumeFrom,
+				depth: context.depth,
+				usage,
+				trace: span?.asParent(),
+				secrets
 			};
 
 			const finalOutput = await this.executeWorkflowTraversal(traversalContext);
 
-			await this.executionRepo.update(execution.id, {
+			await this.executionRepo.updateUnlessFinished(execution.id, {
 				status: 'completed',
-				result: finalOutput,
+				result: scrubSecrets(finalOutput, secrets),
+				usage: usage.totals,
 				completedAt: new Date(),
 			});
 
+			this.endExecutionSpan(span, usage, secrets);
+
 			sendEvent({
 				type: 'workflow_complete',
 				workflowId: workflow.id,
@@ -187,119 +371,730 @@ export class WorkflowOrchestrator {
 				depth: context.depth,
 				path: context.path,
 				data: { result: finalOutput },
+				metadata: { tokensUsed: usage.totals.totalTokens, cost: usage.totals.cost },
 				timestamp: new Date().toISOString()
 			});
+
+			return finalOutput;
 		} catch (error: any) {
-			await this.executionRepo.update(execution.id, {
-				status: 'failed',
-				error: error.message,
+			this.endExecutionSpan(span, usage, secrets, error);
+
+			// Only the top-level execution can wait; nested workflows fail so the parent sees the error
+			if (error instanceof ExecutionSuspendedError && context.depth === 0) {
+				await this.executionRepo.update(execution.id, { usage: usage.totals });
+				await this.executionRepo.updateUnlessFinished(execution.id, { status: 'waiting' });
+
+				sendEvent({
+					type: 'workflow_waiting',
+					workflowId: workflow.id,
+					executionId: context.executionId,
+					depth: context.depth,
+					path: context.path,
+					data: { nodeId: error.nodeId },
+					timestamp: new Date().toISOString()
+				});
+
+				return undefined;
+			}
+
+			await this.executionRepo.update(execution.id, { usage: usage.totals });
+			await this.executionRepo.updateUnlessFinished(execution.id, {
+				status: this.getFailureStatus(error),
+				error: scrubSecrets(error.message, secrets),
 				completedAt: new Date(),
 			});
+
+			if (error instanceof CancelledError) {
+				sendEvent({
+					type: 'workflow_cancelled',
+					workflowId: workflow.id,
+					executionId: context.executionId,
+					depth: context.depth,
+					path: context.path,
+					data: { message: error.message },
+					timestamp: new Date().toISOString()
+				});
+
+				// The top-level stream ends normally; nested runs still throw to stop their parent
+				if (context.depth === 0) {
+					return undefined;
+				}
+			}
+
 			throw error;
+		} finally {
+			deadline.clear();
+			heartbeat.stop();
+			cancellation.release();
+		}
+	}
+
+	// Sub-workflows add to the usage of their parent, so the budgets of both apply
+	private createUsageTracker(
+		workflow: WorkflowModel,
+		workflowConfig: Record<string, any>,
+		resumeFrom?: ExecutionCheckpoint,
+		parentUsage?: UsageTracker
+	): UsageTracker {
+		const prices = (workflowConfig.modelPrices ?? {}) as ModelPrices;
+		return parentUsage
+			? parentUsage.child(workflow.budget, prices)
+			: new UsageTracker(workflow.budget, prices, resumeFrom?.usage);
+	}
+
+	private startExecutionSpan(workflow: WorkflowModel, execution: ExecutionModel, parentTrace?: SpanParent): Span | undefined {
+		return startSpan(parentTrace, `workflow ${workflow.name}`, {
+			'workflow.id': workflow.id,
+			'workflow.name': workflow.name,
+			'execution.id': execution.id,
+			'thread.id': execution.threadId,
+		});
+	}
+
+	private endExecutionSpan(span: Span | undefined, usage: UsageTracker, secrets: string[], error?: any): void {
+		// Waiting for input is a pause, not a failure
+		const failed = error !== undefined && !(error instanceof ExecutionSuspendedError);
+
+		span?.setAttributes({
+			'execution.status': error === undefined ? 'completed' : failed ? this.getFailureStatus(error) : 'waiting',
+			'gen_ai.usage.input_tokens': usage.totals.promptTokens,
+			'gen_ai.usage.output_tokens': usage.totals.completionTokens,
+			'execution.cost': usage.totals.cost,
+		});
+		span?.end(failed ? this.scrubError(error, secrets) : undefined);
+	}
+
+	/**
+	 * Values that must not leave the execution: the config variables flagged as secret and the
+	 * values of secret-looking config keys, e.g. `apiToken`.
+	 */
+	private collectSecrets(config: Record<string, any> | null | undefined, declared: string[] = []): string[] {
+		return [...new Set([...findSecretValues(config), ...declared])];
+	}
+
+	// Error messages can quote config values, e.g. a request URL with a token in it
+	private scrubError(error: any, secrets: string[]): { name: string; message: string } {
+		return { name: error?.name ?? 'Error', message: scrubSecrets(String(error?.message ?? error), secrets) };
+	}
+
+	private withBudgetSignal(parentSignal: AbortSignal | undefined, usage: UsageTracker): AbortSignal {
+		return parentSignal ? AbortSignal.any([parentSignal, usage.signal]) : usage.signal;
+	}
+
+	private createDeadlineSignal(workflow: WorkflowModel, parentSignal?: AbortSignal) {
+		return createTimeoutSignal(
+			parentSignal,
+			workflow.deadlineMs ?? undefined,
+			() => new TimeoutError(`Workflow '${workflow.id}' exceeded its deadline of ${workflow.deadlineMs}ms`)
+		);
+	}
+
+	/**
+	 * Checkpoints are only written between nodes, so while a long node runs the heartbeat is what
+	 * keeps a resume from taking the execution over.
+	 */
+	private startHeartbeat(executionId: string) {
+		const timer = setInterval(() => {
+			// A missed beat only lets the run look idle sooner; it must not fail the run
+			this.executionRepo.heartbeat(executionId).catch(() => {});
+		}, HEARTBEAT_INTERVAL_MS);
+
+		return { stop: () => clearInterval(timer) };
+	}
+
+	private getFailureStatus(error: any): 'failed' | 'timed_out' | 'cancelled' {
+		if (error instanceof TimeoutError) {
+			return 'timed_out';
+		}
+		return error instanceof CancelledError ? 'cancelled' : 'failed';
+	}
+
+	/**
+	 * Picks up cancel requests handled by another isolate, which only reach us through the database.
+	 */
+	private async throwIfCancelled(context: TraversalContext): Promise<void> {
+		context.signal?.throwIfAborted();
+
+		const execution = await this.executionRepo.findById(context.execution.id);
+		if (execution?.status === 'cancelled') {
+			// Also stops sibling branches and sub-workflows running in this isolate
+			abortExecution(context.execution.id);
+			throw new CancelledError(`Execution '${context.execution.id}' was cancelled`);
 		}
 	}
 
 	private async executeWorkflowTraversal(context: TraversalContext): Promise<any> {
+		const { workflow, resumeFrom } = context;
+		const traversal = this.createTraversalState(workflow, resumeFrom);
+
+		const start: TraversalStep = resumeFrom
+			? { nodeId: resumeFrom.nextNodeId, scope: resumeFrom.scope ?? undefined }
+			: { nodeId: workflow.startNode };
+
+		const next = await this.traverse(
+			start,
+			context,
+			traversal,
+			(nodeId) => nodeId === workflow.endNode,
+			(step) => this.saveCheckpoint(context, step, traversal)
+		);
+
+		if (next.nodeId === workflow.endNode && !traversal.nodeOutputs.has(next.nodeId)) {
+			const endNode = traversal.nodeMap.get(next.nodeId);
+			if (endNode) {
+				await this.throwIfCancelled(context);
+				// The traversal loop stops before counting the end node
+				const { output } = await this.executeNode(
+					endNode,
+					context,
+					traversal.nodeOutputs,
+					traversal.state,
+					next.scope,
+					traversal.iterations + 1
+				);
+				traversal.nodeOutputs.set(next.nodeId, output);
+			}
+		}
+
+		const result = this.buildWorkflowOutput(context, traversal);
+
+		// Only completed runs move the thread forward; failed ones can be retried from the same state
+		if (context.execution.threadId && this.threadRepo) {
+			await this.threadRepo.update(context.execution.threadId, {
+				state: scrubSecrets(traversal.state, context.secrets),
+				lastExecutionId: context.execution.id,
+			});
+		}
+
+		return result;
+	}
+
+	/**
+	 * Shapes the result with the workflow's `output` template, where `output` is the end node's output,
+	 * and checks it against `outputSchema` so callers get the same contract whichever executor ran.
+	 */
+	private buildWorkflowOutput(context: TraversalContext, traversal: TraversalState): any {
 		const { workflow } = context;
-		const nodes = workflow.nodes as NodeModel[];
-		const edges = workflow.edges as Edge[];
-		const nodeMap = new Map<string, NodeModel>();
-		const nodeOutputs = new Map<string, any>();
-		const state: Record<string, any> = workflow.state || {};
+		const endOutput = traversal.nodeOutputs.get(workflow.endNode);
 
-		for (const node of nodes) {
+		let result = endOutput;
+		if (workflow.output != null) {
+			const input = this.buildNodeInput(
+				traversal.nodeOutputs,
+				context.workflowParameters,
+				context.workflowConfig,
+				traversal.state,
+				undefined,
+				{ output: endOutput }
+			);
+
+			try {
+				result = this.parser.parse(workflow.output, input);
+			} catch (error: any) {
+				throw new Error(`Failed to build the output of workflow '${workflow.name}': ${error.message}`);
+			}
+		}
+
+		const errors = workflow.outputSchema ? validateJsonSchema(result, workflow.outputSchema) : [];
+		if (errors.length > 0) {
+			throw new SchemaValidationError(`Output of workflow '${workflow.name}' does not match its outputSchema`, errors);
+		}
+
+		return result;
+	}
+
+	private createTraversalState(workflow: WorkflowModel, resumeFrom?: ExecutionCheckpoint): TraversalState {
+		const nodeMap = new Map<string, NodeModel>();
+		for (const node of workflow.nodes as NodeModel[]) {
 			nodeMap.set(node.id, node);
 		}
 
-		const edgeMap = new Map<string, Edge>();
-		for (const edge of edges) {
-			edgeMap.set(edge.from, edge);
+		const edgeMap = new Map<string, Exclude<Edge, ErrorEdge>>();
+		const errorEdgeMap = new Map<string, ErrorEdge>();
+		for (const edge of workflow.edges as Edge[]) {
+			if ('onError' in edge) {
+				errorEdgeMap.set(edge.from, edge);
+			} else {
+				edgeMap.set(edge.from, edge);
+			}
 		}
 
-		let currentNodeId = workflow.startNode;
-		let iterations = 0;
-		const maxIterations = workflow.maxIterations || 100;
+		return {
+			nodeMap,
+			edgeMap,
+			errorEdgeMap,
+			nodeOutputs: new Map<string, any>(Object.entries(resumeFrom?.nodeOutputs || {})),
+			state: structuredClone(resumeFrom?.state || workflow.state || {}),
+			iterations: resumeFrom?.iterations || 0,
+			maxIterations: workflow.maxIterations || 100,
+			pendingInput: resumeFrom && resumeFrom.input !== undefined
+				? { nodeId: resumeFrom.nextNodeId, payload: resumeFrom.input }
+				: undefined,
+		};
+	}
+
+	/**
+	 * Persists everything needed to continue the traversal at `next` after the isolate is evicted.
+	 */
+	private async saveCheckpoint(context: TraversalContext, next: TraversalStep, traversal: TraversalState): Promise<void> {
+		const checkpoint: ExecutionCheckpoint = {
+			nextNodeId: next.nodeId,
+			scope: next.scope ?? null,
+			nodeOutputs: scrubSecrets(Object.fromEntries(traversal.nodeOutputs), context.secrets),
+			state: scrubSecrets(traversal.state, context.secrets),
+			iterations: traversal.iterations,
+			usage: { ...context.usage.totals },
+			updatedAt: new Date().toISOString(),
+		};
 
-		while (currentNodeId !== workflow.endNode && iterations < maxIterations) {
-			iterations++;
+		await this.executionRepo.update(context.execution.id, { checkpoint });
+	}
 
-			const currentNode = nodeMap.get(currentNodeId);
+	/**
+	 * Walks the graph from `start` until `shouldStop` matches the next node to run.
+	 * Returns the step that was not executed, so the caller decides what to do with it.
+	 * `onStep` is called with every step reached after a node completes. Only traversals with
+	 * `onStep` are checkpointed, so only they can suspend at a `wait_for_input` node.
+	 */
+	private async traverse(
+		start: TraversalStep,
+		context: TraversalContext,
+		traversal: TraversalState,
+		shouldStop: (nodeId: string) => boolean,
+		onStep?: (next: TraversalStep) => Promise<void>
+	): Promise<TraversalStep & { lastNodeId?: string }> {
+		let current: TraversalStep = start;
+		let lastNodeId: string | undefined;
+
+		while (!shouldStop(current.nodeId)) {
+			await this.throwIfCancelled(context);
+
+			traversal.iterations++;
+			if (traversal.iterations > traversal.maxIterations) {
+				throw new Error(
+					`Workflow execution exceeded maximum iterations (${traversal.maxIterations}). ` +
+					`This might indicate an infinite loop in your workflow.`
+				);
+			}
+
+			const currentNode = traversal.nodeMap.get(current.nodeId);
 			if (!currentNode) {
-				throw new Error(`Node '${currentNodeId}' not found during execution`);
+				throw new Error(`Node '${current.nodeId}' not found during execution`);
 			}
 
-			const output = await this.executeNode(
-				currentNode,
-				context,
-				nodeOutputs,
-				state
-			);
+			if (currentNode.type === 'wait_for_input') {
+				if (traversal.pendingInput?.nodeId !== currentNode.id) {
+					if (!onStep) {
+						throw new Error(`wait_for_input node '${currentNode.id}' is only supported on the main path of a workflow`);
+					}
 
-			nodeOutputs.set(currentNodeId, output);
+					await onStep(current);
+					throw new ExecutionSuspendedError(currentNode.id);
+				}
 
-			if (currentNodeId === workflow.endNode) {
-				break;
+				current = { ...current, scope: { ...current.scope, input: traversal.pendingInput.payload } };
+				traversal.pendingInput = undefined;
+			} else if (context.workflow.executionMode === 'dag') {
+				const segment = this.collectSegment(currentNode, traversal, shouldStop);
+				if (segment.length > 1) {
+					const step = await this.executeSegment(segment, current, context, traversal, onStep);
+					lastNodeId = step.lastNodeId ?? lastNodeId;
+					current = step.next;
+					await onStep?.(current);
+					continue;
+				}
 			}
 
-			const edge = edgeMap.get(currentNodeId);
-			if (!edge) {
-				throw new Error(
-					`No outgoing edge found from node '${currentNodeId}'. ` +
-					`Workflow cannot continue. Did you forget to add an edge?`
+			let result: NodeResult;
+			try {
+				result = await this.executeNode(
+					currentNode,
+					context,
+					traversal.nodeOutputs,
+					traversal.state,
+					current.scope,
+					traversal.iterations
 				);
+			} catch (error: any) {
+				const errorEdge = traversal.errorEdgeMap.get(currentNode.id);
+				if (!errorEdge || context.signal?.aborted) {
+					throw error;
+				}
+
+				current = {
+					nodeId: errorEdge.onError,
+					scope: { error: this.describeNodeFailure(error, currentNode, context, traversal, current.scope) },
+					route: this.errorRoute(errorEdge),
+				};
+				await this.recordRoute(this.failedNodeExecutions.get(error), current.route);
+				await onStep?.(current);
+				continue;
 			}
 
-			if ('to' in edge) {
-				currentNodeId = edge.to;
-			} else {
-				const nextNodeId = await this.evaluateDynamicEdge(
-					edge,
-					nodeOutputs,
-					context.workflowParameters,
-					context.workflowConfig,
-					state
-				);
+			traversal.nodeOutputs.set(currentNode.id, result.output);
+			lastNodeId = currentNode.id;
 
-				if (!nodeMap.has(nextNodeId)) {
-					throw new Error(
-						`Dynamic edge '${edge.id}' returned invalid node ID '${nextNodeId}'. ` +
-						`Node does not exist in workflow.`
+			current = await this.followEdge(currentNode.id, context, traversal);
+			await this.recordRoute(result.nodeExecutionId, current.route);
+			await onStep?.(current);
+		}
+
+		return { ...current, lastNodeId };
+	}
+
+	/**
+	 * In `dag` mode, the nodes reached from `start` through static edges form a segment that runs as a unit.
+	 * The segment ends at a node whose outgoing edge is not static (that edge is followed once the whole
+	 * segment completed) or that has an error edge, and before a wait_for_input node, the stop node or a
+	 * node that is already part of it.
+	 */
+	private collectSegment(
+		start: NodeModel,
+		traversal: TraversalState,
+		shouldStop: (nodeId: string) => boolean
+	): NodeModel[] {
+		const segment = [start];
+
+		for (let node = start; !traversal.errorEdgeMap.has(node.id); ) {
+			const edge = traversal.edgeMap.get(node.id);
+			const next = edge && 'to' in edge ? traversal.nodeMap.get(edge.to) : undefined;
+			if (!next || next.type === 'wait_for_input' || shouldStop(next.id) || segment.includes(next)) {
+				break;
+			}
+
+			segment.push(next);
+			node = next;
+		}
+
+		return segment;
+	}
+
+	/**
+	 * Runs the nodes of a segment concurrently, each as soon as the nodes it depends on (see
+	 * `findDataDependencies`) have completed. `start.scope` only applies to the first node, as in a
+	 * sequential traversal. Once every node settled, follows the last node's edge, or its error edge
+	 * when it was the only node to fail; otherwise rethrows the first failure in segment order.
+	 *
+	 * While the segment runs, checkpoints point at the first node that has not completed yet, so a
+	 * resumed execution runs the rest of the segment again, including nodes that completed after it.
+	 */
+	private async executeSegment(
+		segment: NodeModel[],
+		start: TraversalStep,
+		context: TraversalContext,
+		traversal: TraversalState,
+		onStep?: (next: TraversalStep) => Promise<void>
+	): Promise<{ next: TraversalStep; lastNodeId?: string }> {
+		const dependencies = findDataDependencies(segment);
+		const positions = new Map(segment.map((node, index) => [node.id, index]));
+		const runs = new Map<string, Promise<NodeResult>>();
+		const completed = new Set<string>();
+		const firstIteration = traversal.iterations;
+		let checkpoints = Promise.resolve();
+
+		const run = (node: NodeModel, index: number): Promise<NodeResult> => {
+			if (!runs.has(node.id)) {
+				runs.set(node.id, (async () => {
+					await Promise.all(
+						dependencies.get(node.id)!.map((id) => run(segment[positions.get(id)!], positions.get(id)!))
 					);
-				}
 
-				currentNodeId = nextNodeId;
+					// The first node was already checked and counted by the traversal loop
+					let iteration = firstIteration;
+					if (index > 0) {
+						await this.throwIfCancelled(context);
+
+						traversal.iterations++;
+						if (traversal.iterations > traversal.maxIterations) {
+							throw new Error(
+								`Workflow execution exceeded maximum iterations (${traversal.maxIterations}). ` +
+								`This might indicate an infinite loop in your workflow.`
+							);
+						}
+						iteration = traversal.iterations;
+					}
+
+					const result = await this.executeNode(
+						node,
+						context,
+						traversal.nodeOutputs,
+						traversal.state,
+						index === 0 ? start.scope : undefined,
+						iteration
+					);
+					traversal.nodeOutputs.set(node.id, result.output);
+					completed.add(node.id);
+
+					// Nodes inside the segment are linked by static edges; the last one's edge is followed below
+					const edge = traversal.edgeMap.get(node.id);
+					if (index < segment.length - 1 && edge && 'to' in edge) {
+						await this.recordRoute(result.nodeExecutionId, { edgeId: edge.id, target: edge.to, isDefault: false });
+					}
+
+					const pending = segment.find((candidate) => !completed.has(candidate.id));
+					if (pending && onStep) {
+						checkpoints = checkpoints.then(() => onStep({ nodeId: pending.id }));
+					}
+
+					return result;
+				})());
 			}
+			return runs.get(node.id)!;
+		};
+
+		const settled = await Promise.allSettled(segment.map(run));
+		await checkpoints;
+
+		const last = segment[segment.length - 1];
+		const lastResult = settled[settled.length - 1];
+		const failure = settled.findIndex((outcome) => outcome.status === 'rejected');
+
+		if (failure !== -1) {
+			const error = (settled[failure] as PromiseRejectedResult).reason;
+			const errorEdge = traversal.errorEdgeMap.get(last.id);
+			if (failure !== segment.length - 1 || !errorEdge || context.signal?.aborted) {
+				throw error;
+			}
+
+			const route = this.errorRoute(errorEdge);
+			await this.recordRoute(this.failedNodeExecutions.get(error), route);
+
+			return {
+				next: {
+					nodeId: errorEdge.onError,
+					scope: { error: this.describeNodeFailure(error, last, context, traversal) },
+					route,
+				},
+			};
 		}
 
-		if (iterations >= maxIterations) {
+		const next = await this.followEdge(last.id, context, traversal);
+		await this.recordRoute((lastResult as PromiseFulfilledResult<NodeResult>).value.nodeExecutionId, next.route);
+
+		return { next, lastNodeId: last.id };
+	}
+
+	/**
+	 * Builds the `error` object handed to an error edge's handler node. `input` is the failed
+	 * node's config resolved against its input, so handlers can retry with the same payload.
+	 */
+	private describeNodeFailure(
+		error: any,
+		node: NodeModel,
+		context: TraversalContext,
+		traversal: TraversalState,
+		scope?: Record<string, any>
+	): Record<string, any> {
+		const input = this.buildNodeInput(
+			traversal.nodeOutputs,
+			context.workflowParameters,
+			context.workflowConfig,
+			traversal.state,
+			context.streaming?.context,
+			scope
+		);
+
+		return {
+			message: error.message,
+			name: error.name,
+			status: typeof error.status === 'number' ? error.status : null,
+			nodeId: node.id,
+			input: this.resolveNodeConfig(node, input),
+		};
+	}
+
+	private errorRoute(edge: ErrorEdge): NodeRoute {
+		return { edgeId: edge.id, target: edge.onError, isDefault: false, onError: true };
+	}
+
+	private async recordRoute(nodeExecutionId: string | undefined, route: NodeRoute | undefined): Promise<void> {
+		if (nodeExecutionId && route) {
+			await this.nodeExecRepo.update(nodeExecutionId, { route });
+		}
+	}
+
+	// Falls back to the unresolved config when a template fails, e.g. the one that made the node fail
+	private resolveNodeConfig(node: NodeModel, input: Record<string, any>): Record<string, any> {
+		try {
+			return this.parser.parse(node.config, input);
+		} catch {
+			return node.config;
+		}
+	}
+
+	private async followEdge(
+		nodeId: string,
+		context: TraversalContext,
+		traversal: TraversalState
+	): Promise<TraversalStep> {
+		const edge = traversal.edgeMap.get(nodeId);
+		if (!edge) {
 			throw new Error(
-				`Workflow execution exceeded maximum iterations (${maxIterations}). ` +
-				`This might indicate an infinite loop in your workflow.`
+				`No outgoing edge found from node '${nodeId}'. ` +
+				`Workflow cannot continue. Did you forget to add an edge?`
 			);
 		}
 
-		if (currentNodeId === workflow.endNode && !nodeOutputs.has(currentNodeId)) {
-			const endNode = nodeMap.get(currentNodeId);
-			if (endNode) {
-				const output = await this.executeNode(
-					endNode,
-					context,
-					nodeOutputs,
-					state
-				);
-				nodeOutputs.set(currentNodeId, output);
-			}
+		if ('branches' in edge) {
+			const branches = await this.executeParallelEdge(edge, context, traversal);
+			return {
+				nodeId: edge.join,
+				scope: { branches },
+				route: { edgeId: edge.id, target: edge.join, branches: edge.branches, isDefault: false },
+			};
 		}
 
-		return nodeOutputs.get(workflow.endNode);
+		if ('to' in edge) {
+			return { nodeId: edge.to, route: { edgeId: edge.id, target: edge.to, isDefault: false } };
+		}
+
+		const edgeContext = this.buildEdgeContext(
+			traversal.nodeOutputs,
+			context.workflowParameters,
+			context.workflowConfig,
+			traversal.state
+		);
+
+		const route = 'cases' in edge
+			? this.evaluateSwitchEdge(edge, edgeContext)
+			: this.evaluateDynamicEdge(edge, edgeContext);
+
+		if (!traversal.nodeMap.has(route.target)) {
+			throw new Error(
+				`Dynamic edge '${edge.id}' returned invalid node ID '${route.target}'. ` +
+				`Node does not exist in workflow.`
+			);
+		}
+
+		return { nodeId: route.target, route };
+	}
+
+	/**
+	 * Runs every branch of a parallel edge concurrently until it reaches the join node.
+	 * Resolves with the last output of each branch once the join's `wait` count is met. Branches
+	 * still running at that point are aborted and awaited first, so they cannot write outputs,
+	 * state or node executions after the join has read them.
+	 */
+	private async executeParallelEdge(
+		edge: ParallelEdge,
+		context: TraversalContext,
+		traversal: TraversalState
+	): Promise<Record<string, any>> {
+		const joinNode = traversal.nodeMap.get(edge.join);
+		if (!joinNode) {
+			throw new Error(`Join node '${edge.join}' of parallel edge '${edge.id}' not found during execution`);
+		}
+
+		const required = joinNode.config?.wait !== undefined
+			? Number(joinNode.config.wait)
+			: edge.branches.length;
+
+		if (!Number.isInteger(required) || required < 1 || required > edge.branches.length) {
+			throw new Error(
+				`Join node '${joinNode.id}' waits for ${joinNode.config?.wait} branches ` +
+				`but parallel edge '${edge.id}' has ${edge.branches.length}`
+			);
+		}
+
+		// Stops the branches that are no longer needed, along with everything context.signal stops
+		const controller = new AbortController();
+		const branchContext: TraversalContext = {
+			...context,
+			signal: context.signal ? AbortSignal.any([context.signal, controller.signal]) : controller.signal,
+		};
+
+		const runs: Promise<unknown>[] = [];
+		const outcome = new Promise<Record<string, any>>((resolve, reject) => {
+			const results: Record<string, any> = {};
+			let completed = 0;
+			let failed = 0;
+			let settled = false;
+
+			for (const branchNodeId of edge.branches) {
+				runs.push(this.traverse({ nodeId: branchNodeId }, branchContext, traversal, (nodeId) => nodeId === edge.join)
+					.then(({ lastNodeId }) => {
+						if (settled) return;
+						results[branchNodeId] = lastNodeId ? traversal.nodeOutputs.get(lastNodeId) : undefined;
+						completed++;
+						if (completed === required) {
+							settled = true;
+							resolve({ ...results });
+						}
+					})
+					.catch((error: any) => {
+						if (settled) return;
+						failed++;
+						if (edge.branches.length - failed < required) {
+							settled = true;
+							// Keep the abort reason so timeouts and cancellations are reported as such
+							reject(context.signal?.aborted
+								? context.signal.reason
+								: new Error(`Parallel branch '${branchNodeId}' of edge '${edge.id}' failed: ${error.message}`));
+						}
+					}));
+			}
+		});
+
+		try {
+			return await outcome;
+		} finally {
+			controller.abort(new CancelledError(`Parallel edge '${edge.id}' no longer needs this branch`));
+			await Promise.allSettled(runs);
+		}
 	}
 
 	private async executeNode(
 		node: NodeModel,
 		context: TraversalContext,
 		nodeOutputs: Map<string, any>,
-		state: Record<string, any>
-	): Promise<any> {
+		state: Record<string, any>,
+		scope?: Record<string, any>,
+		iteration?: number
+	): Promise<NodeResult> {
+		const maxAttempts = node.retry?.maxAttempts ?? 1;
+
+		for (let attempt = 1; ; attempt++) {
+			const retryPolicy = attempt < maxAttempts ? node.retry : undefined;
+
+			try {
+				const result = await this.executeNodeAttempt(node, context, nodeOutputs, state, scope, attempt, retryPolicy, iteration);
+				// Checked once the node is recorded as completed, so the usage that broke the budget is kept
+				context.usage.throwIfExceeded();
+				return result;
+			} catch (error: any) {
+				const sendEvent = context.streaming?.sendEvent;
+				const eventBase = {
+					nodeId: node.id,
+					nodeType: node.type,
+					depth: context.streaming?.context.depth,
+					path: [...(context.streaming?.context.path || []), node.id],
+					timestamp: new Date().toISOString()
+				};
+
+				if (!retryPolicy || context.signal?.aborted || !isRetryableError(error, retryPolicy)) {
+					sendEvent?.({ ...eventBase, type: 'error', data: { message: error.message, attempt } });
+					throw error;
+				}
+
+				const delayMs = getRetryDelay(retryPolicy, attempt);
+				sendEvent?.({ ...eventBase, type: 'node_retry', data: { message: error.message, attempt, delayMs } });
+
+				// Cancellation and the execution deadline also apply while waiting to retry
+				await sleep(delayMs, context.signal);
+			}
+		}
+	}
+
+	private async executeNodeAttempt(
+		node: NodeModel,
+		context: TraversalContext,
+		nodeOutputs: Map<string, any>,
+		state: Record<string, any>,
+		scope: Record<string, any> | undefined,
+		attempt: number,
+		retryPolicy?: NodeRetryPolicy,
+		iteration?: number
+	): Promise<NodeResult> {
 		const isStreaming = !!context.streaming;
 		const nodePath = isStreaming
 			? [...context.streaming!.context.path, node.id]
@@ -314,6 +1109,7 @@ export class WorkflowOrchestrator {
 				nodeType: node.type,
 				depth: context.streaming!.context.depth,
 				path: nodePath,
+				data: { attempt },
 				timestamp: new Date().toISOString()
 			});
 		}
@@ -322,25 +1118,61 @@ export class WorkflowOrchestrator {
 			executionId: context.execution.id,
 			nodeId: node.id,
 			status: 'running',
+			attempt,
+			iteration: iteration ?? null,
 			output: null,
 			error: null,
 			completedAt: null,
 		});
 
+		const { secrets } = context;
+		let resolvedInput: Record<string, any> | null = null;
+
+		const span = startSpan(context.trace, `node ${node.id}`, {
+			'node.id': node.id,
+			'node.type': node.type,
+			'node.attempt': attempt,
+			'node.iteration': iteration,
+		});
+
 		try {
 			const input = this.buildNodeInput(
 				nodeOutputs,
 				context.workflowParameters,
 				context.workflowConfig,
 				state,
-				isStreaming ? context.streaming!.context : undefined
+				isStreaming ? context.streaming!.context : undefined,
+				scope
 			);
 
-			let output: any;
+			// Only the known secret values are scrubbed; keys such as `max_tokens` merely look like secrets
+			resolvedInput = scrubSecrets(this.resolveNodeConfig(node, input), secrets);
+
+			const timeout = createTimeoutSignal(
+				context.signal,
+				node.timeoutMs,
+				() => new TimeoutError(`Node '${node.id}' timed out after ${node.timeoutMs}ms`)
+			);
+			// Sub-workflows and map chain nodes nest under this node's span
+			const nodeContext: TraversalContext = { ...context, signal: timeout.signal, trace: span?.asParent() };
+
+			const runNode = async (): Promise<any> => {
+				if (node.type === 'wait_for_input') {
+					// The submitted payload becomes the node's output; traverse() only gets here on resume
+					if (!('input' in input)) {
+						throw new Error(`wait_for_input node '${node.id}' is only supported on the main path of a workflow`);
+					}
+					return input.input;
+				}
+
+				if (node.type === 'workflow_executor') {
+					return await this.executeWorkflowNode(node, input, nodeContext);
+				}
+
+				if (node.type === 'map') {
+					return await this.executeMapNode(node, input, nodeContext, nodeOutputs, state);
+				}
 
-			if (node.type === 'workflow_executor') {
-				output = await this.executeWorkflowNode(node, input, context.streaming);
-			} else {
 				const executor = await this.nodeFactory.getExecutor(node.type);
 
 				if (!executor) {
@@ -359,12 +1191,31 @@ export class WorkflowOrchestrator {
 					});
 				} : undefined;
 
-				output = await executor.run(node, input, onChunk);
+				return await executor.run(node, input, { onChunk, signal: timeout.signal });
+			};
+
+			let output: any;
+			try {
+				// Executors that ignore the signal are still cut off when it fires
+				output = await raceWithSignal(runNode(), timeout.signal);
+			} finally {
+				timeout.clear();
+			}
+
+			// Sub-workflows record their own usage, so only executor outputs are counted here
+			const nodeUsage = CONTROL_NODE_TYPES.has(node.type) ? null : context.usage.record(output);
+
+			const retryableStatus = retryPolicy ? getRetryableStatus(output, retryPolicy) : null;
+			if (retryableStatus !== null) {
+				throw new RetryableStatusError(retryableStatus, `Node '${node.id}' returned retryable status ${retryableStatus}`);
 			}
 
 			// Execute setState if defined
+			let stateDiff: Record<string, { before: any; after: any }> | null = null;
 			if (node.setState && Array.isArray(node.setState)) {
+				const before = structuredClone(state);
 				await this.executeSetState(node.setState, input, output, state);
+				stateDiff = scrubSecrets(this.diffState(before, state), secrets);
 
 				// Send setState event if streaming
 				if (isStreaming) {
@@ -379,15 +1230,29 @@ export class WorkflowOrchestrator {
 				}
 			}
 
+			const durationMs = Date.now() - startTime;
+
 			await this.nodeExecRepo.update(nodeExecution.id, {
 				status: 'completed',
-				output: output,
+				input: resolvedInput,
+				output: scrubSecrets(output, secrets),
+				usage: nodeUsage,
+				stateDiff,
+				durationMs,
 				completedAt: new Date(),
 			});
 
+			span?.setAttributes({
+				'node.status': 'completed',
+				'gen_ai.request.model': this.getNodeModel(output, resolvedInput),
+				'gen_ai.usage.input_tokens': nodeUsage?.promptTokens,
+				'gen_ai.usage.output_tokens': nodeUsage?.completionTokens,
+				'node.cost': nodeUsage?.cost,
+			});
+			span?.end();
+
 			// Send node complete event if streaming
 			if (isStreaming) {
-				const duration = Date.now() - startTime;
 				if (node.streaming?.sendOnComplete !== false) {
 					context.streaming!.sendEvent({
 						type: 'node_complete',
@@ -396,40 +1261,47 @@ export class WorkflowOrchestrator {
 						depth: context.streaming!.context.depth,
 						path: nodePath,
 						data: output,
-						metadata: { duration },
+						metadata: {
+							duration: durationMs,
+							...(nodeUsage && { tokensUsed: nodeUsage.totalTokens, cost: nodeUsage.cost }),
+						},
 						timestamp: new Date().toISOString()
 					});
 				}
 			}
 
-			return output;
+			return { output, nodeExecutionId: nodeExecution.id };
 		} catch (error: any) {
+			span?.setAttributes({
+				'node.status': this.getFailureStatus(error),
+				'gen_ai.request.model': this.getNodeModel(undefined, resolvedInput),
+			});
+			span?.end(this.scrubError(error, secrets));
+
 			await this.nodeExecRepo.update(nodeExecution.id, {
-				status: 'failed',
-				error: error.message,
+				status: this.getFailureStatus(error),
+				input: resolvedInput,
+				error: scrubSecrets(error.message, secrets),
+				durationMs: Date.now() - startTime,
 				completedAt: new Date(),
 			});
 
-			if (isStreaming) {
-				context.streaming!.sendEvent({
-					type: 'error',
-					nodeId: node.id,
-					nodeType: node.type,
-					depth: context.streaming!.context.depth,
-					path: nodePath,
-					data: { message: error.message },
-					timestamp: new Date().toISOString()
-				});
+			if (typeof error === 'object' && error !== null) {
+				this.failedNodeExecutions.set(error, nodeExecution.id);
 			}
-
 			throw error;
 		}
 	}
 
+	private getNodeModel(output: any, resolvedInput: Record<string, any> | null): string | undefined {
+		const model = output?.model ?? resolvedInput?.model;
+		return typeof model === 'string' ? model : undefined;
+	}
+
 	private async executeWorkflowNode(
 		node: NodeModel,
 		input: Record<string, any>,
-		streaming?: TraversalContext['streaming']
+		context: TraversalContext
 	): Promise<any> {
 		const parsedConfig = this.parser.parse(node.config, input) as Record<string, any>;
 
@@ -443,31 +1315,147 @@ export class WorkflowOrchestrator {
 			throw new Error('workflow_executor node requires parameters object in config');
 		}
 
-		const workflow = await this.workflowService.getWorkflow(workflow_id);
+		return await this.executeSubWorkflow(workflow_id, parameters, input, [node.id], context);
+	}
+
+	/**
+	 * Runs `config.workflow_id` or the inline `config.nodes` chain once per item of `config.items`.
+	 * `item` and `index` are available in templates; results are returned in item order.
+	 */
+	private async executeMapNode(
+		node: NodeModel,
+		input: Record<string, any>,
+		context: TraversalContext,
+		nodeOutputs: Map<string, any>,
+		state: Record<string, any>
+	): Promise<any> {
+		const { items: itemsTemplate, concurrency: concurrencyTemplate = 1, nodes: chain } = node.config;
+
+		const items = this.parser.parse(itemsTemplate, input);
+		if (!Array.isArray(items)) {
+			throw new Error(`map node '${node.id}' requires items to resolve to an array, got ${typeof items}`);
+		}
+
+		const concurrency = Number(this.parser.parse(concurrencyTemplate, input));
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			throw new Error(`map node '${node.id}' requires concurrency to be a positive integer`);
+		}
+
+		if (!node.config.workflow_id && !(Array.isArray(chain) && chain.length > 0)) {
+			throw new Error(`map node '${node.id}' requires either workflow_id or a non-empty nodes array in config`);
+		}
+
+		// Aborts the items still running once one fails, along with everything context.signal stops
+		const controller = new AbortController();
+		const itemContext: TraversalContext = {
+			...context,
+			signal: context.signal ? AbortSignal.any([context.signal, controller.signal]) : controller.signal,
+		};
+
+		const results = await mapWithConcurrency(items, concurrency, async (item, index) => {
+			try {
+				return await this.executeMapItem(node, item, index, input, itemContext, nodeOutputs, state);
+			} catch (error) {
+				controller.abort(new CancelledError(`map node '${node.id}' stopped after item ${index} failed`));
+				throw error;
+			}
+		});
+
+		return {
+			results,
+			count: results.length,
+		};
+	}
+
+	private async executeMapItem(
+		node: NodeModel,
+		item: any,
+		index: number,
+		input: Record<string, any>,
+		context: TraversalContext,
+		nodeOutputs: Map<string, any>,
+		state: Record<string, any>
+	): Promise<any> {
+		const chain = node.config.nodes;
+		const itemInput = { ...input, item, index };
+
+		if (node.config.workflow_id) {
+			const { workflow_id, parameters } = this.parser.parse(
+				{ workflow_id: node.config.workflow_id, parameters: node.config.parameters ?? { item: '{{item}}' } },
+				itemInput
+			) as Record<string, any>;
+
+			if (!parameters || typeof parameters !== 'object') {
+				throw new Error(`map node '${node.id}' requires parameters to resolve to an object`);
+			}
+
+			return await this.executeSubWorkflow(
+				workflow_id,
+				parameters,
+				input,
+				[node.id, String(index)],
+				context
+			);
+		}
+
+		// Inline chain: each item gets its own view of parent outputs
+		const itemOutputs = new Map(nodeOutputs);
+		let output: any;
+		for (const chainNode of chain as NodeModel[]) {
+			({ output } = await this.executeNode(chainNode, context, itemOutputs, state, { item, index }));
+			itemOutputs.set(chainNode.id, output);
+		}
+		return output;
+	}
+
+	private async executeSubWorkflow(
+		workflowId: string,
+		parameters: Record<string, any>,
+		input: Record<string, any>,
+		pathSegments: string[],
+		context: TraversalContext
+	): Promise<any> {
+		const { streaming, signal } = context;
+
+		const depth = context.depth + 1;
+		if (depth > MAX_WORKFLOW_DEPTH) {
+			throw new Error(
+				`Workflow '${workflowId}' would run at nesting depth ${depth}, above the maximum of ${MAX_WORKFLOW_DEPTH}. Check for workflows that call each other.`
+			);
+		}
+
+		const workflow = await this.workflowService.getWorkflow(workflowId);
 
 		if (!workflow) {
-			throw new Error(`Workflow not found: ${workflow_id}`);
+			throw new Error(`Workflow not found: ${workflowId}`);
 		}
 
+		const resolvedParameters = resolveParameters(workflow, parameters);
+
 		const subExecution = await this.executionRepo.create({
 			workflowId: workflow.id,
 			status: 'running',
-			parameters: parameters,
-			config: input.config || null,
+			parameters: resolvedParameters,
+			config: input.config ? scrubSecrets(input.config, context.secrets) : null,
 			configId: null,
 			result: null,
 			error: null,
 			completedAt: null,
+			parentExecutionId: context.execution.id,
 		});
 
 		try {
 			if (streaming) {
 				const subContext: StreamingContext = {
 					executionId: subExecution.id,
-					depth: streaming.context.depth + 1,
+					depth,
 					parentExecutionId: streaming.context.executionId,
-					path: [...streaming.context.path, node.id],
-					onEvent: streaming.sendEvent
+					path: [...streaming.context.path, ...pathSegments],
+					onEvent: streaming.sendEvent,
+					parentSignal: signal,
+					parentUsage: context.usage,
+					parentTrace: context.trace,
+					secrets: context.secrets
 				};
 
 				return await this.executeWithStreaming(workflow, subExecution, subContext);
@@ -475,51 +1463,112 @@ export class WorkflowOrchestrator {
 				return await this.executeWorkflow(
 					workflow,
 					subExecution,
-					parameters,
-					input.config || {}
+					resolvedParameters,
+					input.config || {},
+					signal,
+					undefined,
+					depth,
+					context.usage,
+					context.trace,
+					context.secrets
 				);
 			}
 		} catch (error: any) {
-			throw new Error(`Workflow execution failed for workflow_id '${workflow_id}': ${error.message}`);
-		}
-	}
+			// Streaming runs record their own failure status
+			if (!streaming) {
+				await this.executionRepo.updateUnlessFinished(subExecution.id, {
+					status: this.getFailureStatus(error),
+					error: scrubSecrets(error.message, context.secrets),
+					completedAt: new Date(),
+				});
+			}
 
-	private async evaluateDynamicEdge(
-		edge: DynamicEdge,
-		nodeOutputs: Map<string, any>,
-		workflowParameters: Record<string, any>,
-		workflowConfig: Record<string, any>,
-		state: Record<string, any>
-	): Promise<string> {
-		try {
-			const parent: Record<string, any> = {};
-			for (const [nodeId, output] of nodeOutputs.entries()) {
-				parent[nodeId] = output;
+			if (error instanceof ExecutionSuspendedError) {
+				throw new Error(`wait_for_input node '${error.nodeId}' of workflow '${workflowId}' cannot run inside a sub-workflow`);
 			}
 
-			const context = {
-				parameters: workflowParameters,
-				config: workflowConfig,
-				state: state,
-				parent: parent,
-			};
+			const message = `Workflow execution failed for workflow_id '${workflowId}': ${error.message}`;
+			if (error instanceof TimeoutError) {
+				throw new TimeoutError(message);
+			}
+			if (error instanceof BudgetExceededError) {
+				throw new BudgetExceededError(message);
+			}
+			throw error instanceof CancelledError ? new CancelledError(message) : new Error(message);
+		}
+	}
 
-			const condition = edge.conditions.find(
+	private evaluateDynamicEdge(edge: DynamicEdge, context: Record<string, any>): NodeRoute {
+		try {
+			const conditionIndex = edge.conditions.findIndex(
 				({node: _, condition}) => !!this.parser.eval(condition, context)
 			)
 
-			if (!condition) {
-				throw new Error(
-					`Not even a single condition passed in Dynamic edge`
-				);
+			if (conditionIndex !== -1) {
+				const { node, condition } = edge.conditions[conditionIndex];
+				return { edgeId: edge.id, target: node, conditionIndex, condition, isDefault: false };
 			}
 
-			return condition.node;
+			if (edge.default) {
+				return { edgeId: edge.id, target: edge.default, conditionIndex: null, condition: null, isDefault: true };
+			}
+
+			throw new Error(
+				`Not even a single condition passed in Dynamic edge and no default is set`
+			);
 		} catch (error: any) {
 			throw new Error(`Failed to evaluate dynamic edge '${edge.id}': ${error.message}`);
 		}
 	}
 
+	private evaluateSwitchEdge(edge: SwitchEdge, context: Record<string, any>): NodeRoute {
+		try {
+			const value = this.parser.eval(edge.expression, context);
+
+			const target = edge.cases[String(value)];
+			if (target) {
+				return { edgeId: edge.id, target, value, isDefault: false };
+			}
+
+			if (edge.default) {
+				return { edgeId: edge.id, target: edge.default, value, isDefault: true };
+			}
+
+			throw new Error(`No case matches value '${String(value)}' and no default is set`);
+		} catch (error: any) {
+			throw new Error(`Failed to evaluate switch edge '${edge.id}': ${error.message}`);
+		}
+	}
+
+	private buildEdgeContext(
+		nodeOutputs: Map<string, any>,
+		workflowParameters: Record<string, any>,
+		workflowConfig: Record<string, any>,
+		state: Record<string, any>
+	): Record<string, any> {
+		const parent: Record<string, any> = {};
+		for (const [nodeId, output] of nodeOutputs.entries()) {
+			parent[nodeId] = output;
+		}
+
+		return {
+			parameters: workflowParameters,
+			config: workflowConfig,
+			state: state,
+			parent: parent,
+		};
+	}
+
+	private diffState(before: Record<string, any>, after: Record<string, any>): Record<string, { before: any; after: any }> {
+		const diff: Record<string, { before: any; after: any }> = {};
+		for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+			if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+				diff[key] = { before: before[key] ?? null, after: after[key] ?? null };
+			}
+		}
+		return diff;
+	}
+
 	private async executeSetState(
 		setStateRules: Array<{ key: string; template?: any }>,
 		input: Record<string, any>,
@@ -547,7 +1596,8 @@ export class WorkflowOrchestrator {
 		workflowParameters: Record<string, any>,
 		workflowConfig: Record<string, any>,
 		state: Record<string, any>,
-		context?: StreamingContext
+		context?: StreamingContext,
+		scope?: Record<string, any>
 	): Record<string, any> {
 		const parentOutputs: Record<string, any> = {};
 		for (const [nodeId, output] of nodeOutputs.entries()) {
@@ -569,22 +1619,10 @@ export class WorkflowOrchestrator {
 			};
 		}
 
-		return input;
-	}
-
-	private async waitForCompletion(executionId: string): Promise<any> {
-		let attempts = 0;
-		const maxAttempts = 100;
-
-		while (attempts < maxAttempts) {
-			const execution = await this.executionRepo.findById(executionId);
-			if (execution && (execution.status === 'completed' || execution.status === 'failed')) {
-				return execution.result;
-			}
-			await new Promise(resolve => setTimeout(resolve, 100));
-			attempts++;
+		if (scope) {
+			Object.assign(input, scope);
 		}
 
-		throw new Error('Execution timeout');
+		return input;
 	}
 }
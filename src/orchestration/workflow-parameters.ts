@@ -0,0 +1,29 @@
+import type { WorkflowModel } from '../domain/entities';
+import { SchemaValidationError } from '../domain/errors';
+import { applyJsonSchemaDefaults, coerceJsonSchemaTypes, validateJsonSchema } from '../utils/json-schema';
+
+/**
+ * Returns the parameters an execution of `workflow` runs with: defaults from `parameterSchema`
+ * are filled in and, with `coerce`, string values are converted to the declared types first.
+ * Throws a `SchemaValidationError` listing every invalid field.
+ */
+export function resolveParameters(
+	workflow: Pick<WorkflowModel, 'name' | 'parameterSchema'>,
+	parameters: Record<string, any>,
+	options: { coerce?: boolean } = {}
+): Record<string, any> {
+	const schema = workflow.parameterSchema;
+	if (!schema || Object.keys(schema).length === 0) {
+		return parameters;
+	}
+
+	const coerced = options.coerce ? coerceJsonSchemaTypes(parameters, schema) : parameters;
+	const resolved = applyJsonSchemaDefaults(coerced, schema);
+
+	const errors = validateJsonSchema(resolved, schema);
+	if (errors.length > 0) {
+		throw new SchemaValidationError(`Invalid parameters for workflow '${workflow.name}'`, errors);
+	}
+
+	return resolved;
+}
@@ -1,8 +1,11 @@
-import { eq } from 'drizzle-orm';
+import { and, asc, eq, isNull, notInArray, sql } from 'drizzle-orm';
 import { executions } from '../db/schema';
 import { ExecutionModel } from '../domain/entities';
 import { BaseRepository } from './baase.repository';
 
+// Statuses a run never leaves on its own; only a resume sets them back to `running`
+export const FINISHED_STATUSES: ExecutionModel['status'][] = ['completed', 'failed', 'timed_out', 'cancelled'];
+
 export class ExecutionRepository extends BaseRepository<typeof executions, ExecutionModel> {
 	constructor(d1Database: D1Database) {
 		super(d1Database, executions);
@@ -15,10 +18,71 @@ export class ExecutionRepository extends BaseRepository<typeof executions, Execu
 			.where(eq(executions.workflowId, workflowId)) as unknown as ExecutionModel[];
 	}
 
-	async updateStatus(id: string, status: 'pending' | 'running' | 'completed' | 'failed'): Promise<void> {
+	async findByParentExecutionId(parentExecutionId: string): Promise<ExecutionModel[]> {
+		return this.db
+			.select()
+			.from(executions)
+			.where(eq(executions.parentExecutionId, parentExecutionId)) as unknown as ExecutionModel[];
+	}
+
+	async findByThreadId(threadId: string): Promise<ExecutionModel[]> {
+		return this.db
+			.select()
+			.from(executions)
+			.where(eq(executions.threadId, threadId))
+			.orderBy(asc(executions.createdAt)) as unknown as ExecutionModel[];
+	}
+
+	async updateStatus(id: string, status: ExecutionModel['status']): Promise<void> {
 		await this.db
 			.update(executions)
 			.set({ status })
 			.where(eq(executions.id, id));
 	}
+
+	/**
+	 * Updates the execution only while it is not in one of the `FINISHED_STATUSES`, so a run that
+	 * ends after it was cancelled does not overwrite `cancelled`. Returns false when nothing changed.
+	 */
+	async updateUnlessFinished(id: string, data: Partial<Omit<ExecutionModel, 'id' | 'createdAt'>>): Promise<boolean> {
+		const updated = await this.db
+			.update(executions)
+			.set(data)
+			.where(and(eq(executions.id, id), notInArray(executions.status, FINISHED_STATUSES)))
+			.returning({ id: executions.id });
+
+		return updated.length > 0;
+	}
+
+	async heartbeat(id: string): Promise<void> {
+		await this.db
+			.update(executions)
+			.set({ heartbeatAt: new Date() })
+			.where(and(eq(executions.id, id), eq(executions.status, 'running')));
+	}
+
+	/**
+	 * Sets the execution back to `running` only if its status, checkpoint and heartbeat are still the
+	 * ones in `observed`. Returns false when another resume, or the run itself, changed the row first.
+	 */
+	async claimForResume(observed: ExecutionModel): Promise<boolean> {
+		const checkpointUpdatedAt = observed.checkpoint?.updatedAt;
+
+		const claimed = await this.db
+			.update(executions)
+			.set({ status: 'running', error: null, completedAt: null })
+			.where(and(
+				eq(executions.id, observed.id),
+				eq(executions.status, observed.status),
+				checkpointUpdatedAt === undefined
+					? isNull(executions.checkpoint)
+					: sql`json_extract(${executions.checkpoint}, '$.updatedAt') = ${checkpointUpdatedAt}`,
+				observed.heartbeatAt
+					? eq(executions.heartbeatAt, observed.heartbeatAt)
+					: isNull(executions.heartbeatAt)
+			))
+			.returning({ id: executions.id });
+
+		return claimed.length > 0;
+	}
 }
@@ -1,4 +1,4 @@
-import { eq } from 'drizzle-orm';
+import { asc, eq } from 'drizzle-orm';
 import { nodeExecutions } from '../db/schema';
 import { NodeExecutionModel } from '../domain/entities';
 import { BaseRepository } from './baase.repository';
@@ -12,10 +12,12 @@ export class NodeExecutionRepository extends BaseRepository<typeof nodeExecution
 		return this.db
 			.select()
 			.from(nodeExecutions)
-			.where(eq(nodeExecutions.executionId, executionId)) as unknown as NodeExecutionModel[];
+			.where(eq(nodeExecutions.executionId, executionId))
+			// created_at has second precision, so ties fall back to the order of the traversal
+			.orderBy(asc(nodeExecutions.createdAt), asc(nodeExecutions.iteration), asc(nodeExecutions.attempt)) as unknown as NodeExecutionModel[];
 	}
 
-	async updateStatus(id: string, status: 'pending' | 'running' | 'completed' | 'failed'): Promise<void> {
+	async updateStatus(id: string, status: NodeExecutionModel['status']): Promise<void> {
 		await this.db
 			.update(nodeExecutions)
 			.set({ status })
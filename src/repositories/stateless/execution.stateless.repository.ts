@@ -1,5 +1,6 @@
 import { Context } from 'hono';
 import type { ExecutionModel } from '../../domain/entities';
+import { FINISHED_STATUSES } from '../execution.repository';
 import { BaseStatelessRepository } from './base.stateless.repository';
 
 export class ExecutionStatelessRepository extends BaseStatelessRepository<ExecutionModel> {
@@ -8,8 +9,25 @@ export class ExecutionStatelessRepository extends BaseStatelessRepository<Execut
 		super(context, 'execution_stateless_repo')
 	}
 
-	async updateStatus(id: string, status: 'pending' | 'running' | 'completed' | 'failed'): Promise<void> {
+	async updateStatus(id: string, status: ExecutionModel['status']): Promise<void> {
 		const entity = await this.findById(id)
 		await this.update(id, { ...entity, status: status })
 	}
+
+	async updateUnlessFinished(id: string, data: Partial<Omit<ExecutionModel, 'id' | 'createdAt'>>): Promise<boolean> {
+		const entity = await this.findById(id)
+		if (!entity || FINISHED_STATUSES.includes(entity.status)) {
+			return false
+		}
+
+		await this.update(id, { ...entity, ...data })
+		return true
+	}
+
+	async heartbeat(id: string): Promise<void> {
+		const entity = await this.findById(id)
+		if (entity?.status === 'running') {
+			await this.update(id, { ...entity, heartbeatAt: new Date() })
+		}
+	}
 }
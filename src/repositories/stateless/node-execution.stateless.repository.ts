@@ -8,7 +8,7 @@ export class NodeExecutionStatelessRepository extends BaseStatelessRepository<No
 		super(context, 'node_execution_stateless_repo')
 	}
 
-	async updateStatus(id: string, status: 'pending' | 'running' | 'completed' | 'failed'): Promise<void> {
+	async updateStatus(id: string, status: NodeExecutionModel['status']): Promise<void> {
 		const entity = await this.findById(id)
 		await this.update(id, { ...entity, status: status })
 	}
@@ -0,0 +1,31 @@
+import { desc, eq } from 'drizzle-orm';
+import { threads } from '../db/schema';
+import { ThreadModel } from '../domain/entities';
+import { BaseRepository } from './baase.repository';
+
+export class ThreadRepository extends BaseRepository<typeof threads, ThreadModel> {
+	constructor(d1Database: D1Database) {
+		super(d1Database, threads);
+	}
+
+	/**
+	 * Threads are created on the first execution that names them, so the caller picks the id.
+	 * When concurrent executions create the same thread, the first insert wins and all of them get that row.
+	 */
+	async createWithId(id: string, thread: Omit<ThreadModel, 'id' | 'createdAt' | 'updatedAt'>): Promise<ThreadModel> {
+		const now = new Date();
+		await this.db
+			.insert(threads)
+			.values({ ...thread, id, createdAt: now, updatedAt: now })
+			.onConflictDoNothing({ target: threads.id });
+
+		return (await this.findById(id))!;
+	}
+
+	async findRecent(workflowId?: string): Promise<ThreadModel[]> {
+		const query = this.db.select().from(threads);
+		const filtered = workflowId ? query.where(eq(threads.workflowId, workflowId)) : query;
+
+		return filtered.orderBy(desc(threads.updatedAt)) as unknown as ThreadModel[];
+	}
+}
@@ -102,9 +102,9 @@ export function configRoutes() {
       const configService = c.get('configService');
       const id = c.req.param('id');
       const key = c.req.param('key');
-      const { value } = c.req.valid('json');
-      await configService.setConfigVariable(id, key, value);
-      return c.json({ message: 'Variable updated successfully', key, value });
+      const { value, secret } = c.req.valid('json');
+      const { value: maskedValue, warnings } = await configService.setConfigVariable(id, key, value, secret);
+      return c.json({ message: 'Variable updated successfully', key, value: maskedValue, warnings });
     } catch (error: any) {
       return c.json({ error: error.message }, 400);
     }
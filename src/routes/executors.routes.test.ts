@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { executorRoutes } from './executors.routes';
+import { ExecutorService } from '../services/executor.service';
+import { NodeExecutorFactory } from '../orchestration/node-executor.factory';
+
+describe('executorRoutes', () => {
+  let app: Hono<{ Variables: { executorService: ExecutorService } }>;
+
+  beforeEach(() => {
+    const executorService = new ExecutorService(new NodeExecutorFactory({ AI: {} } as any));
+    app = new Hono<{ Variables: { executorService: ExecutorService } }>();
+    app.use('*', async (c, next) => {
+      c.set('executorService', executorService);
+      await next();
+    });
+    app.route('/executors', executorRoutes());
+  });
+
+  it('should list the executors and control nodes with their config schemas', async () => {
+    const response = await app.request('/executors');
+    const body: any[] = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.map((info) => info.type)).toEqual(expect.arrayContaining(['map', 'wait_for_input', 'join']));
+    expect(body.every((info) => info.configSchema?.type === 'object')).toBe(true);
+  });
+
+  it('should return a single executor by type', async () => {
+    const response = await app.request('/executors/wait_for_input');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(expect.objectContaining({
+      type: 'wait_for_input',
+      configSchema: expect.objectContaining({ properties: expect.objectContaining({ schema: expect.anything() }) }),
+    }));
+  });
+
+  it('should return 404 for an unknown type', async () => {
+    const response = await app.request('/executors/teleport');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Executor 'teleport' not found" });
+  });
+});
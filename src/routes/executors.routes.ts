@@ -0,0 +1,30 @@
+import { Hono } from 'hono';
+import { ExecutorService } from '../services/executor.service';
+
+type Variables = {
+  executorService: ExecutorService;
+};
+
+export function executorRoutes() {
+  const app = new Hono<{ Variables: Variables }>();
+
+  app.get('/', async (c) => {
+    try {
+      const executorService = c.get('executorService');
+      return c.json(executorService.listExecutors());
+    } catch (error: any) {
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  app.get('/:type', async (c) => {
+    try {
+      const executorService = c.get('executorService');
+      return c.json(executorService.getExecutor(c.req.param('type')));
+    } catch (error: any) {
+      return c.json({ error: error.message }, 404);
+    }
+  });
+
+  return app;
+}
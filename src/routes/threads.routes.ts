@@ -0,0 +1,55 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { ThreadService } from '../services/thread.service';
+import { ForkThreadDTO } from '../schemas/dtos';
+
+type Variables = {
+  threadService: ThreadService;
+};
+
+export function threadRoutes() {
+  const app = new Hono<{ Variables: Variables }>();
+
+  app.get('/', async (c) => {
+    try {
+      const threadService = c.get('threadService');
+      const threads = await threadService.listThreads(c.req.query('workflowId'));
+      return c.json(threads);
+    } catch (error: any) {
+      return c.json({ error: error.message }, 500);
+    }
+  });
+
+  app.get('/:id', async (c) => {
+    try {
+      const threadService = c.get('threadService');
+      const thread = await threadService.getThread(c.req.param('id'));
+      return c.json(thread);
+    } catch (error: any) {
+      return c.json({ error: error.message }, 404);
+    }
+  });
+
+  app.post('/:id/fork', zValidator('json', ForkThreadDTO), async (c) => {
+    try {
+      const threadService = c.get('threadService');
+      const dto = c.req.valid('json');
+      const thread = await threadService.forkThread(c.req.param('id'), dto.state);
+      return c.json(thread, 201);
+    } catch (error: any) {
+      return c.json({ error: error.message }, 404);
+    }
+  });
+
+  app.delete('/:id', async (c) => {
+    try {
+      const threadService = c.get('threadService');
+      await threadService.deleteThread(c.req.param('id'));
+      return c.json({ message: 'Thread deleted successfully' });
+    } catch (error: any) {
+      return c.json({ error: error.message }, 404);
+    }
+  });
+
+  return app;
+}
@@ -3,11 +3,14 @@ import { z } from 'zod'
 import { zValidator } from '@hono/zod-validator';
 import { WorkflowService } from '../services/workflow.service';
 import { ExecutionService } from '../services/execution.service';
+import { SchemaValidationError, WorkflowInUseError, WorkflowValidationError } from '../domain/errors';
 import {
 	CreateWorkflowDTO,
 	UpdateWorkflowDTO,
 	ExecuteWorkflowDTO,
 	ExecuteStatelessWorkflowDTO,
+	ReplayExecutionDTO,
+	ResumeExecutionDTO,
 } from '../schemas/dtos';
 
 type Variables = {
@@ -26,6 +29,19 @@ export function workflowRoutes() {
       const dto = c.req.valid('json');
       const workflow = await workflowService.createWorkflow(dto);
       return c.json(workflow, 201);
+    } catch (error: any) {
+      if (error instanceof WorkflowValidationError) {
+        return c.json({ error: error.message, issues: error.issues }, 400);
+      }
+      return c.json({ error: error.message }, 400);
+    }
+  });
+
+  app.post('/lint', zValidator('json', CreateWorkflowDTO), async (c) => {
+    try {
+      const workflowService = c.get('workflowService');
+      const dto = c.req.valid('json');
+      return c.json(await workflowService.lintWorkflow(dto));
     } catch (error: any) {
       return c.json({ error: error.message }, 400);
     }
@@ -60,6 +76,9 @@ export function workflowRoutes() {
       const workflow = await workflowService.updateWorkflow(id, dto);
       return c.json(workflow);
     } catch (error: any) {
+      if (error instanceof WorkflowValidationError) {
+        return c.json({ error: error.message, issues: error.issues }, 400);
+      }
       return c.json({ error: error.message }, 400);
     }
   });
@@ -68,8 +87,21 @@ export function workflowRoutes() {
     try {
       const workflowService = c.get('workflowService');
       const id = c.req.param('id');
-      await workflowService.deleteWorkflow(id);
+      await workflowService.deleteWorkflow(id, c.req.query('force') === 'true');
       return c.json({ message: 'Workflow deleted successfully' });
+    } catch (error: any) {
+      if (error instanceof WorkflowInUseError) {
+        return c.json({ error: error.message, dependents: error.dependents }, 409);
+      }
+      return c.json({ error: error.message }, 404);
+    }
+  });
+
+  app.get('/:id/dependencies', async (c) => {
+    try {
+      const workflowService = c.get('workflowService');
+      const dependencies = await workflowService.getDependencies(c.req.param('id'));
+      return c.json(dependencies);
     } catch (error: any) {
       return c.json({ error: error.message }, 404);
     }
@@ -96,6 +128,9 @@ export function workflowRoutes() {
 			return c.json(execution, 201);
 
 		} catch (error: any) {
+			if (error instanceof SchemaValidationError) {
+				return c.json({ error: error.message, errors: error.errors }, 422);
+			}
 			return c.json({ error: error.message }, 400);
 		}
 	});
@@ -109,12 +144,31 @@ export function workflowRoutes() {
       const streamQuery = c.req.query('stream');
       const streamFromBody = dto.stream;
       const shouldStream = streamQuery === 'true' || streamFromBody === true;
+      // The execution joins the caller's trace when it sends a W3C traceparent
+      const traceparent = c.req.header('traceparent');
+
+      if (c.req.query('mode') === 'async') {
+        if (shouldStream) {
+          return c.json({ error: 'Streaming is not supported in async mode' }, 400);
+        }
+
+        const execution = await executionService.startExecution(workflowId, dto.parameters, dto.configId, {
+          callbackUrl: dto.callbackUrl,
+          threadId: dto.threadId,
+          traceparent,
+          waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+        });
+
+        c.header('Location', `/api/workflows/${workflowId}/executions/${execution.id}`);
+        return c.json(execution, 202);
+      }
 
 			const execution = await executionService.executeWorkflow(
 				workflowId,
 				dto.parameters,
 				dto.configId,
 				shouldStream,
+				{ threadId: dto.threadId, traceparent },
 			);
 
       if (execution instanceof Response) {
@@ -123,6 +177,9 @@ export function workflowRoutes() {
       return c.json(execution, 201);
 
     } catch (error: any) {
+      if (error instanceof SchemaValidationError) {
+        return c.json({ error: error.message, errors: error.errors }, 422);
+      }
       return c.json({ error: error.message }, 400);
     }
   });
@@ -135,11 +192,13 @@ export function workflowRoutes() {
 
 			const shouldStream = false;
 
+			// Raw bodies often come from forms or webhooks, so string values are coerced to the declared types
 			const execution = await executionService.executeWorkflow(
 				workflowId,
 				parameters,
 				undefined,
 				shouldStream,
+				{ coerceParameters: true, threadId: c.req.query('threadId'), traceparent: c.req.header('traceparent') },
 			);
 
 			if (execution instanceof Response) {
@@ -148,6 +207,9 @@ export function workflowRoutes() {
 			return c.json(execution, 201);
 
 		} catch (error: any) {
+			if (error instanceof SchemaValidationError) {
+				return c.json({ error: error.message, errors: error.errors }, 422);
+			}
 			return c.json({ error: error.message }, 400);
 		}
 	});
@@ -181,5 +243,81 @@ export function workflowRoutes() {
 		}
 	});
 
+	app.get('/:id/executions/:execution_id/nodes', async (c) => {
+		try {
+			const executionService = c.get('executionService');
+			const nodeExecutions = await executionService.listNodeExecutions(c.req.param('id'), c.req.param('execution_id'));
+			return c.json(nodeExecutions);
+		} catch (error: any) {
+			return c.json({ error: error.message }, 404);
+		}
+	});
+
+	app.post('/:id/executions/:execution_id/replay', zValidator('json', ReplayExecutionDTO), async (c) => {
+		try {
+			const executionService = c.get('executionService');
+
+			const workflowId = c.req.param('id');
+			const execution_id = c.req.param('execution_id');
+			const dto = c.req.valid('json');
+
+			const execution = await executionService.replayExecution(workflowId, execution_id, {
+				...dto,
+				stream: c.req.query('stream') === 'true' || dto.stream === true,
+			});
+
+			if (execution instanceof Response) {
+				return execution;
+			}
+			return c.json(execution, 201);
+		} catch (error: any) {
+			if (error instanceof SchemaValidationError) {
+				return c.json({ error: error.message, errors: error.errors }, 422);
+			}
+			return c.json({ error: error.message }, 400);
+		}
+	});
+
+	app.post('/:id/executions/:execution_id/cancel', async (c) => {
+		try {
+			const executionService = c.get('executionService');
+
+			const workflowId = c.req.param('id');
+			const execution_id = c.req.param('execution_id');
+
+			const execution = await executionService.cancelExecution(workflowId, execution_id);
+			return c.json(execution);
+		} catch (error: any) {
+			return c.json({ error: error.message }, 400);
+		}
+	});
+
+	// A request without a JSON body is validated as `{}`, so a plain resume needs no body
+	app.post('/:id/executions/:execution_id/resume', zValidator('json', ResumeExecutionDTO), async (c) => {
+		try {
+			const executionService = c.get('executionService');
+
+			const workflowId = c.req.param('id');
+			const execution_id = c.req.param('execution_id');
+			const dto = c.req.valid('json');
+
+			const execution = await executionService.resumeExecution(workflowId, execution_id, {
+				stream: c.req.query('stream') === 'true' || dto.stream === true,
+				force: c.req.query('force') === 'true' || dto.force === true,
+				input: dto.input,
+			});
+
+			if (execution instanceof Response) {
+				return execution;
+			}
+			return c.json(execution);
+		} catch (error: any) {
+			if (error instanceof SchemaValidationError) {
+				return c.json({ error: error.message, errors: error.errors }, 422);
+			}
+			return c.json({ error: error.message }, 400);
+		}
+	});
+
   return app;
 }
@@ -17,6 +17,10 @@ export const ExecuteWorkflowDTO = z.object({
   parameters: z.record(z.string(), z.any()),
   configId: z.string().optional(),
   stream: z.boolean().optional(),
+  // Only used with `?mode=async`: receives the final execution once the run stops
+  callbackUrl: z.string().url().optional(),
+  // Continues the thread's state, or starts a thread with this id on first use
+  threadId: z.string().min(1).max(200).optional(),
 });
 export type ExecuteWorkflowDTO = z.input<typeof ExecuteWorkflowDTO>;
 
@@ -30,6 +34,30 @@ export const ExecuteStatelessWorkflowDTO = z.object({
 });
 export type ExecuteStatelessWorkflowDTO = z.input<typeof ExecuteStatelessWorkflowDTO>;
 
+export const ReplayExecutionDTO = z.object({
+	fromNode: z.string(),
+	// Merged over the stored workflow, e.g. to try a different prompt on the replayed node
+	workflow: UpdateWorkflowDTO.optional(),
+	parameters: z.record(z.string(), z.any()).optional(),
+	state: z.record(z.string(), z.any()).optional(),
+	stream: z.boolean().optional(),
+});
+export type ReplayExecutionDTO = z.input<typeof ReplayExecutionDTO>;
+
+export const ResumeExecutionDTO = z.object({
+	stream: z.boolean().optional(),
+	force: z.boolean().optional(),
+	// Payload for a `waiting` execution; becomes the output of its wait_for_input node
+	input: z.any().optional(),
+});
+export type ResumeExecutionDTO = z.input<typeof ResumeExecutionDTO>;
+
+export const ForkThreadDTO = z.object({
+	// Merged over the state copied from the forked thread
+	state: z.record(z.string(), z.any()).optional(),
+});
+export type ForkThreadDTO = z.input<typeof ForkThreadDTO>;
+
 
 export const CreateConfigDTO = ConfigSchema
   .omit({ id: true, createdAt: true, updatedAt: true })
@@ -38,6 +66,8 @@ export const CreateConfigDTO = ConfigSchema
       (vars) => Object.keys(vars).length > 0,
       { message: 'Variables must contain at least one key-value pair' }
     ),
+    // Names of the variables to encrypt and mask, e.g. ['ACCESS_TOKEN']
+    secrets: z.array(z.string()).optional(),
   });
 export type CreateConfigDTO = z.input<typeof CreateConfigDTO>;
 
@@ -45,6 +75,8 @@ export const PatchConfigDTO = z.object({
   name: z.string().min(1).max(200).optional(),
   description: z.string().max(1000).optional(),
   variables: z.record(z.string(), z.any()).optional(),
+  // Variables to flag as secret; variables already secret stay secret
+  secrets: z.array(z.string()).optional(),
 });
 export type PatchConfigDTO = z.input<typeof PatchConfigDTO>;
 
@@ -55,10 +87,13 @@ export const ReplaceConfigDTO = z.object({
     (vars) => Object.keys(vars).length > 0,
     { message: 'Variables must contain at least one key-value pair' }
   ),
+  secrets: z.array(z.string()).optional(),
 });
 export type ReplaceConfigDTO = z.input<typeof ReplaceConfigDTO>;
 
 export const UpdateConfigVariableDTO = z.object({
   value: z.any(),
+  // Omitted keeps whether the variable is secret
+  secret: z.boolean().optional(),
 });
 export type UpdateConfigVariableDTO = z.input<typeof UpdateConfigVariableDTO>;
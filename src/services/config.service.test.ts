@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConfigService } from './config.service';
+
+describe('ConfigService', () => {
+  let kvStore: Map<string, string>;
+  let mockKv: any;
+  let mockConfigRepo: any;
+  let configService: ConfigService;
+
+  const config = { id: 'config-1', name: 'Production', description: null, createdAt: new Date(), updatedAt: new Date() };
+
+  beforeEach(() => {
+    kvStore = new Map();
+    mockKv = {
+      get: vi.fn(async (key: string) => kvStore.get(key) ?? null),
+      put: vi.fn(async (key: string, value: string) => {
+        kvStore.set(key, value);
+      }),
+      delete: vi.fn(async (key: string) => {
+        kvStore.delete(key);
+      }),
+    };
+
+    mockConfigRepo = {
+      create: vi.fn().mockResolvedValue(config),
+      findById: vi.fn().mockResolvedValue(config),
+      update: vi.fn().mockResolvedValue(config),
+    };
+
+    configService = new ConfigService(mockConfigRepo, mockKv, 'test-encryption-key');
+  });
+
+  it('should encrypt secret variables in KV and mask them in responses', async () => {
+    const created = await configService.createConfig({
+      name: 'Production',
+      variables: { apiUrl: 'https://api.example.com', ACCESS_TOKEN: 'token-123456' },
+      secrets: ['ACCESS_TOKEN'],
+    });
+
+    expect(created.variables).toEqual({ apiUrl: 'https://api.example.com', ACCESS_TOKEN: '[REDACTED]' });
+    expect(created.secrets).toEqual(['ACCESS_TOKEN']);
+    expect(kvStore.get('config:config-1')).not.toContain('token-123456');
+    expect(await configService.getConfigVariable('config-1', 'ACCESS_TOKEN')).toBe('[REDACTED]');
+
+    expect(await configService.resolveConfigVariables('config-1')).toEqual({
+      variables: { apiUrl: 'https://api.example.com', ACCESS_TOKEN: 'token-123456' },
+      secretKeys: ['ACCESS_TOKEN'],
+    });
+  });
+
+  it('should keep a secret when its masked value is sent back', async () => {
+    await configService.createConfig({
+      name: 'Production',
+      variables: { ACCESS_TOKEN: 'token-123456', region: 'eu' },
+      secrets: ['ACCESS_TOKEN'],
+    });
+
+    const { variables } = (await configService.getConfig('config-1'))!;
+    await configService.replaceConfig('config-1', { variables: { ...variables, region: 'us' } });
+
+    expect((await configService.resolveConfigVariables('config-1')).variables).toEqual({
+      ACCESS_TOKEN: 'token-123456',
+      region: 'us',
+    });
+  });
+
+  it('should flag and unflag single variables as secret', async () => {
+    await configService.createConfig({ name: 'Production', variables: { DB_URL: 'postgres://db' } });
+
+    expect((await configService.setConfigVariable('config-1', 'DB_URL', 'postgres://db-2', true)).value).toBe('[REDACTED]');
+    // Without the flag a secret stays secret
+    expect((await configService.setConfigVariable('config-1', 'DB_URL', 'postgres://db-3')).value).toBe('[REDACTED]');
+    expect((await configService.resolveConfigVariables('config-1')).variables.DB_URL).toBe('postgres://db-3');
+
+    expect((await configService.setConfigVariable('config-1', 'DB_URL', 'postgres://db-4', false)).value).toBe('postgres://db-4');
+    expect((await configService.getConfig('config-1'))!.secrets).toEqual([]);
+  });
+
+  it('should reject secrets without an encryption key or a matching variable', async () => {
+    const withoutKey = new ConfigService(mockConfigRepo, mockKv);
+
+    await expect(withoutKey.createConfig({
+      name: 'Production',
+      variables: { ACCESS_TOKEN: 'token-123456' },
+      secrets: ['ACCESS_TOKEN'],
+    })).rejects.toThrow('Secret variables require the CONFIG_ENCRYPTION_KEY secret to be configured');
+    expect(mockConfigRepo.create).not.toHaveBeenCalled();
+
+    await expect(configService.createConfig({
+      name: 'Production',
+      variables: { apiUrl: 'https://api.example.com' },
+      secrets: ['ACCESS_TOKEN'],
+    })).rejects.toThrow("Secret 'ACCESS_TOKEN' is not one of the config variables");
+  });
+
+  it('should warn about new variables that look secret but are not flagged', async () => {
+    const created = await configService.createConfig({
+      name: 'Production',
+      variables: { ACCESS_TOKEN: 'token-123456', API_KEY: 'key-123456', max_retries: 3 },
+      secrets: ['API_KEY'],
+    });
+    const patched = await configService.patchConfig('config-1', { variables: { max_retries: 5 } });
+    const { warnings } = await configService.setConfigVariable('config-1', 'password', 'hunter22');
+
+    expect(created.warnings).toEqual([{
+      key: 'ACCESS_TOKEN',
+      message: expect.stringContaining("Config variable 'ACCESS_TOKEN' looks like a secret"),
+    }]);
+    // Unchanged variables were already warned about
+    expect(patched.warnings).toEqual([]);
+    expect(warnings.map((warning) => warning.key)).toEqual(['password']);
+    expect((await configService.getConfig('config-1'))!.variables.ACCESS_TOKEN).toBe('token-123456');
+  });
+});
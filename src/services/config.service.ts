@@ -1,58 +1,74 @@
 import { ConfigRepository } from '../repositories/config.repository';
 import type { CreateConfigDTO, PatchConfigDTO, ReplaceConfigDTO } from '../schemas/dtos';
 import type { ConfigModel } from '../domain/entities';
+import { decryptSecret, encryptSecret } from '../utils/helpers';
+import { REDACTED, isSecretKey } from '../utils/redact';
+
+type ConfigWithVariables = ConfigModel & { variables: Record<string, any>; secrets: string[] };
+
+// A variable whose name looks secret but is not flagged, so it is stored and persisted with executions in plain text
+interface ConfigWarning {
+  key: string;
+  message: string;
+}
+
+type SavedConfig = ConfigWithVariables & { warnings: ConfigWarning[] };
+
+// How secret variables are stored in KV, in place of their value
+interface EncryptedVariable {
+  $secret: string;
+}
 
 export class ConfigService {
   constructor(
     private configRepo: ConfigRepository,
-    private kv: KVNamespace
+    private kv: KVNamespace,
+    private encryptionKey?: string
   ) {}
 
-  async createConfig(dto: CreateConfigDTO): Promise<ConfigModel & { variables: Record<string, any> }> {
+  async createConfig(dto: CreateConfigDTO): Promise<SavedConfig> {
+    // Encrypted first, so a missing encryption key does not leave a config without variables behind
+    const { variables: stored, warnings } = await this.encryptVariables(dto.variables, dto.secrets ?? []);
+
 		const config = await this.configRepo.create({
 			name: dto.name,
 			description: dto.description || null,
 		});
 
-    await this.kv.put(`config:${config.id}`, JSON.stringify(dto.variables));
+    await this.kv.put(`config:${config.id}`, JSON.stringify(stored));
 
-    return {
-      ...config,
-      variables: dto.variables,
-    };
+    return { ...this.withMaskedVariables(config, stored), warnings };
   }
 
-  async getConfig(id: string): Promise<(ConfigModel & { variables: Record<string, any> }) | null> {
+  /**
+   * The config with its secret variables masked, as returned by the config API.
+   */
+  async getConfig(id: string): Promise<ConfigWithVariables | null> {
     const config = await this.configRepo.findById(id);
     if (!config) {
       return null;
     }
 
-    const variablesJson = await this.kv.get(`config:${id}`);
-    const variables = variablesJson ? JSON.parse(variablesJson) : {};
-
-    return {
-      ...config,
-      variables,
-    };
+    return this.withMaskedVariables(config, await this.readVariables(id));
   }
 
   async listConfigs(): Promise<ConfigModel[]> {
     return await this.configRepo.findAll();
   }
 
-  async patchConfig(id: string, dto: PatchConfigDTO): Promise<ConfigModel & { variables: Record<string, any> }> {
-    const existing = await this.getConfig(id);
+  async patchConfig(id: string, dto: PatchConfigDTO): Promise<SavedConfig> {
+    const existing = await this.configRepo.findById(id);
     if (!existing) {
       throw new Error('Config not found');
     }
 
-    if (dto.variables) {
-      const mergedVariables = {
-        ...existing.variables,
-        ...dto.variables,
-      };
-      await this.kv.put(`config:${id}`, JSON.stringify(mergedVariables));
+    let warnings: ConfigWarning[] = [];
+    if (dto.variables || dto.secrets) {
+      const stored = await this.readVariables(id);
+      const secrets = [...Object.keys(stored).filter((key) => isEncrypted(stored[key])), ...(dto.secrets ?? [])];
+      const merged = await this.encryptVariables({ ...stored, ...dto.variables }, secrets, stored);
+      await this.kv.put(`config:${id}`, JSON.stringify(merged.variables));
+      warnings = merged.warnings;
     }
 
     const updated = await this.configRepo.update(id, {
@@ -60,23 +76,20 @@ export class ConfigService {
       description: dto.description,
     });
 
-    const variablesJson = await this.kv.get(`config:${id}`);
-    const variables = variablesJson ? JSON.parse(variablesJson) : {};
-
-    return {
-      ...updated!,
-      variables,
-    };
+    return { ...this.withMaskedVariables(updated!, await this.readVariables(id)), warnings };
   }
 
-  async replaceConfig(id: string, dto: ReplaceConfigDTO): Promise<ConfigModel & { variables: Record<string, any> }> {
+  async replaceConfig(id: string, dto: ReplaceConfigDTO): Promise<SavedConfig> {
     const existing = await this.configRepo.findById(id);
     if (!existing) {
       throw new Error('Config not found');
     }
 
+    let warnings: ConfigWarning[] = [];
     if (dto.variables) {
-      await this.kv.put(`config:${id}`, JSON.stringify(dto.variables));
+      const replaced = await this.encryptVariables(dto.variables, dto.secrets ?? [], await this.readVariables(id));
+      await this.kv.put(`config:${id}`, JSON.stringify(replaced.variables));
+      warnings = replaced.warnings;
     }
 
     const updated = await this.configRepo.update(id, {
@@ -84,13 +97,7 @@ export class ConfigService {
       description: dto.description,
     });
 
-    const variablesJson = await this.kv.get(`config:${id}`);
-    const variables = variablesJson ? JSON.parse(variablesJson) : {};
-
-    return {
-      ...updated!,
-      variables,
-    };
+    return { ...this.withMaskedVariables(updated!, await this.readVariables(id)), warnings };
   }
 
   async deleteConfig(id: string): Promise<void> {
@@ -117,46 +124,141 @@ export class ConfigService {
     return config.variables[key];
   }
 
-  async setConfigVariable(id: string, key: string, value: any): Promise<void> {
-    const config = await this.getConfig(id);
+  /**
+   * Sets one variable and returns its value as the config API shows it, i.e. masked when secret.
+   * Without `secret`, the variable stays secret if it was.
+   */
+  async setConfigVariable(
+    id: string,
+    key: string,
+    value: any,
+    secret?: boolean
+  ): Promise<{ value: any; warnings: ConfigWarning[] }> {
+    const config = await this.configRepo.findById(id);
     if (!config) {
       throw new Error('Config not found');
     }
 
-    const updatedVariables = {
-      ...config.variables,
-      [key]: value,
-    };
+    const stored = await this.readVariables(id);
+    const isSecret = secret ?? isEncrypted(stored[key]);
 
-    await this.kv.put(`config:${id}`, JSON.stringify(updatedVariables));
+    const { variables, warnings } = await this.encryptVariables({ [key]: value }, isSecret ? [key] : [], stored);
+
+    await this.kv.put(`config:${id}`, JSON.stringify({ ...stored, ...variables }));
+
+    return { value: isSecret ? REDACTED : value, warnings };
   }
 
   async deleteConfigVariable(id: string, key: string): Promise<void> {
-    const config = await this.getConfig(id);
+    const config = await this.configRepo.findById(id);
     if (!config) {
       throw new Error('Config not found');
     }
 
-    if (!(key in config.variables)) {
+    const stored = await this.readVariables(id);
+    if (!(key in stored)) {
       throw new Error('Variable not found');
     }
 
-    const updatedVariables = { ...config.variables };
+    const updatedVariables = { ...stored };
     delete updatedVariables[key];
 
     await this.kv.put(`config:${id}`, JSON.stringify(updatedVariables));
   }
 
-  async getConfigVariables(configId: string | null | undefined): Promise<Record<string, any>> {
+  /**
+   * The variables an execution runs with, secrets decrypted, and the names of the secret ones,
+   * which must not be persisted.
+   */
+  async resolveConfigVariables(
+    configId: string | null | undefined
+  ): Promise<{ variables: Record<string, any>; secretKeys: string[] }> {
     if (!configId) {
-      return {};
+      return { variables: {}, secretKeys: [] };
     }
 
-    const config = await this.getConfig(configId);
+    const config = await this.configRepo.findById(configId);
     if (!config) {
-      return {};
+      return { variables: {}, secretKeys: [] };
+    }
+
+    const stored = await this.readVariables(configId);
+    const secretKeys = Object.keys(stored).filter((key) => isEncrypted(stored[key]));
+
+    const variables = { ...stored };
+    for (const key of secretKeys) {
+      variables[key] = JSON.parse(await decryptSecret(this.requireEncryptionKey(), stored[key].$secret));
+    }
+
+    return { variables, secretKeys };
+  }
+
+  private async readVariables(id: string): Promise<Record<string, any>> {
+    const variablesJson = await this.kv.get(`config:${id}`);
+    return variablesJson ? JSON.parse(variablesJson) : {};
+  }
+
+  /**
+   * Encrypts the `secretKeys` of `variables`. A masked `[REDACTED]` value sent back for a variable
+   * that is secret in `stored` keeps the stored value, so configs can be edited from API responses.
+   * Warns about changed variables that look secret but are not flagged.
+   */
+  private async encryptVariables(
+    variables: Record<string, any>,
+    secretKeys: string[],
+    stored: Record<string, any> = {}
+  ): Promise<{ variables: Record<string, any>; warnings: ConfigWarning[] }> {
+    for (const key of secretKeys) {
+      if (!(key in variables)) {
+        throw new Error(`Secret '${key}' is not one of the config variables`);
+      }
+    }
+
+    const encrypted: Record<string, any> = {};
+    const warnings: ConfigWarning[] = [];
+    for (const [key, value] of Object.entries(variables)) {
+      if (isEncrypted(value)) {
+        encrypted[key] = value;
+      } else if (value === REDACTED && isEncrypted(stored[key])) {
+        encrypted[key] = stored[key];
+      } else if (secretKeys.includes(key)) {
+        const $secret = await encryptSecret(this.requireEncryptionKey(), JSON.stringify(value));
+        encrypted[key] = { $secret } satisfies EncryptedVariable;
+      } else {
+        // Only flagged variables are kept out of executions, so a secret-looking name is worth a hint
+        if (isSecretKey(key) && value !== stored[key]) {
+          warnings.push({
+            key,
+            message: `Config variable '${key}' looks like a secret but is not flagged as one, so it is stored and persisted with executions in plain text`,
+          });
+        }
+        encrypted[key] = value;
+      }
     }
 
-    return config.variables;
+    return { variables: encrypted, warnings };
+  }
+
+  private withMaskedVariables(config: ConfigModel, stored: Record<string, any>): ConfigWithVariables {
+    const secrets = Object.keys(stored).filter((key) => isEncrypted(stored[key]));
+
+    return {
+      ...config,
+      variables: Object.fromEntries(
+        Object.entries(stored).map(([key, value]) => [key, isEncrypted(value) ? REDACTED : value])
+      ),
+      secrets,
+    };
+  }
+
+  private requireEncryptionKey(): string {
+    if (!this.encryptionKey) {
+      throw new Error('Secret variables require the CONFIG_ENCRYPTION_KEY secret to be configured');
+    }
+    return this.encryptionKey;
   }
 }
+
+function isEncrypted(value: any): value is EncryptedVariable {
+  return typeof value === 'object' && value !== null && typeof value.$secret === 'string' && Object.keys(value).length === 1;
+}
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ExecutionService } from './execution.service';
+import type { ExecutionModel, WorkflowModel } from '../domain/entities';
+
+describe('ExecutionService', () => {
+  let mockExecutionRepo: any;
+  let mockNodeExecRepo: any;
+  let mockWorkflowRepo: any;
+  let mockOrchestrator: any;
+  let mockConfigService: any;
+  let executionService: ExecutionService;
+
+  const workflow: WorkflowModel = {
+    id: 'workflow-1',
+    name: 'Support Workflow',
+    parameterSchema: {},
+    nodes: [
+      { id: 'classify', type: 'llm', config: { model: 'test', prompt: 'Classify' } },
+      { id: 'answer', type: 'llm', config: { model: 'test', prompt: 'Answer' } },
+    ],
+    edges: [{ id: 'e1', from: 'classify', to: 'answer' }],
+    startNode: 'classify',
+    endNode: 'answer',
+    state: {},
+    maxIterations: 100,
+    defaultConfigId: 'defaultConfigId',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const failedExecution: ExecutionModel = {
+    id: 'exec-1',
+    workflowId: 'workflow-1',
+    status: 'failed',
+    parameters: {},
+    config: null,
+    configId: null,
+    result: null,
+    error: 'Model overloaded',
+    checkpoint: {
+      nextNodeId: 'answer',
+      nodeOutputs: { classify: { result: 'billing' } },
+      state: {},
+      iterations: 1,
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    },
+    completedAt: new Date(),
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    mockExecutionRepo = {
+      create: vi.fn(async (execution: any) => ({ ...execution, id: 'exec-2', createdAt: new Date() })),
+      findById: vi.fn().mockResolvedValue(failedExecution),
+      update: vi.fn().mockResolvedValue(null),
+      updateStatus: vi.fn().mockResolvedValue(undefined),
+      updateUnlessFinished: vi.fn().mockResolvedValue(true),
+      findByParentExecutionId: vi.fn().mockResolvedValue([]),
+      claimForResume: vi.fn().mockResolvedValue(true),
+    };
+    mockNodeExecRepo = {
+      findByExecutionId: vi.fn().mockResolvedValue([]),
+    };
+    mockWorkflowRepo = {
+      findById: vi.fn().mockResolvedValue(workflow),
+    };
+    mockOrchestrator = {
+      execute: vi.fn().mockResolvedValue(undefined),
+      executeWithStreaming: vi.fn(),
+    };
+    mockConfigService = {
+      resolveConfigVariables: vi.fn().mockResolvedValue({ variables: {}, secretKeys: [] }),
+    };
+
+    executionService = new ExecutionService(
+      mockExecutionRepo,
+      mockNodeExecRepo,
+      mockWorkflowRepo,
+      mockOrchestrator,
+      mockConfigService
+    );
+  });
+
+  describe('resumeExecution', () => {
+    it('should claim the execution and continue from its checkpoint', async () => {
+      await executionService.resumeExecution('workflow-1', 'exec-1');
+
+      expect(mockExecutionRepo.claimForResume).toHaveBeenCalledWith(failedExecution);
+      expect(mockOrchestrator.execute).toHaveBeenCalledWith(
+        workflow,
+        expect.objectContaining({ id: 'exec-1' }),
+        failedExecution.checkpoint,
+        { secrets: [] }
+      );
+    });
+
+    it('should refuse to resume an execution another resume claimed first', async () => {
+      mockExecutionRepo.claimForResume.mockResolvedValue(false);
+
+      await expect(executionService.resumeExecution('workflow-1', 'exec-1')).rejects.toThrow(
+        'it is probably being resumed already'
+      );
+      expect(mockOrchestrator.execute).not.toHaveBeenCalled();
+    });
+
+    it('should not take over a running execution whose node is still beating', async () => {
+      mockExecutionRepo.findById.mockResolvedValue({
+        ...failedExecution,
+        status: 'running',
+        // The checkpoint is long stale, but the node that started after it still runs
+        heartbeatAt: new Date(Date.now() - 10_000),
+      });
+
+      await expect(executionService.resumeExecution('workflow-1', 'exec-1')).rejects.toThrow(
+        'Execution is still running'
+      );
+      expect(mockExecutionRepo.claimForResume).not.toHaveBeenCalled();
+    });
+
+    it('should resume a running execution once its heartbeat has stopped', async () => {
+      mockExecutionRepo.findById.mockResolvedValue({
+        ...failedExecution,
+        status: 'running',
+        heartbeatAt: new Date(Date.now() - 120_000),
+      });
+
+      await executionService.resumeExecution('workflow-1', 'exec-1');
+
+      expect(mockOrchestrator.execute).toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelExecution', () => {
+    it('should only cancel executions and children that have not finished meanwhile', async () => {
+      mockExecutionRepo.findById.mockResolvedValue({ ...failedExecution, status: 'running', checkpoint: null });
+      mockExecutionRepo.findByParentExecutionId.mockImplementation(async (id: string) =>
+        id === 'exec-1'
+          ? [{ ...failedExecution, id: 'child-1', status: 'running' }, { ...failedExecution, id: 'child-2', status: 'completed' }]
+          : []
+      );
+
+      await executionService.cancelExecution('workflow-1', 'exec-1');
+
+      expect(mockExecutionRepo.updateUnlessFinished.mock.calls.map(([id]: any[]) => id)).toEqual(['exec-1', 'child-1']);
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-1', expect.objectContaining({
+        status: 'cancelled',
+      }));
+      expect(mockExecutionRepo.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startExecution', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should fail the execution and still call back when the run cannot start', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      mockExecutionRepo.updateStatus.mockRejectedValue(new Error('D1_ERROR: database is locked'));
+      mockExecutionRepo.findById.mockResolvedValue({ ...failedExecution, id: 'exec-2', error: 'D1_ERROR: database is locked' });
+
+      const service = new ExecutionService(
+        mockExecutionRepo,
+        mockNodeExecRepo,
+        mockWorkflowRepo,
+        mockOrchestrator,
+        mockConfigService,
+        'signing-secret'
+      );
+      const waitUntil = vi.fn();
+
+      await service.startExecution('workflow-1', {}, undefined, {
+        callbackUrl: 'https://example.com/callback',
+        waitUntil,
+      });
+      await expect(waitUntil.mock.calls[0][0]).resolves.toBeUndefined();
+
+      expect(mockOrchestrator.execute).not.toHaveBeenCalled();
+      expect(mockExecutionRepo.updateUnlessFinished).toHaveBeenCalledWith('exec-2', expect.objectContaining({
+        status: 'failed',
+        error: 'D1_ERROR: database is locked',
+      }));
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/callback', expect.anything());
+    });
+  });
+
+  describe('replayExecution', () => {
+    it('should start from the outputs and state as they were before the first run of fromNode', async () => {
+      mockWorkflowRepo.findById.mockResolvedValue({
+        ...workflow,
+        nodes: [...workflow.nodes, { id: 'followup', type: 'llm', config: { model: 'test', prompt: 'Follow up' } }],
+        edges: [...workflow.edges, { id: 'e2', from: 'answer', to: 'followup' }],
+        endNode: 'followup',
+        state: { topic: null, retries: 0 },
+      });
+      mockExecutionRepo.findById.mockResolvedValue({
+        ...failedExecution,
+        status: 'completed',
+        checkpoint: { ...failedExecution.checkpoint!, state: { topic: 'billing', retries: 1, answered: true, followedUp: true } },
+      });
+
+      const nodeExecution = (nodeId: string, createdAt: number, stateDiff: Record<string, any>) => ({
+        id: `node-exec-${nodeId}`,
+        executionId: 'exec-1',
+        nodeId,
+        status: 'completed',
+        attempt: 1,
+        output: { nodeId },
+        stateDiff,
+        createdAt: new Date(createdAt),
+      });
+      mockNodeExecRepo.findByExecutionId.mockResolvedValue([
+        nodeExecution('followup', 3, { followedUp: { before: null, after: true } }),
+        nodeExecution('classify', 1, { topic: { before: null, after: 'billing' } }),
+        nodeExecution('answer', 2, { answered: { before: null, after: true }, retries: { before: 0, after: 1 } }),
+      ]);
+
+      await executionService.replayExecution('workflow-1', 'exec-1', { fromNode: 'answer' });
+
+      expect(mockOrchestrator.execute).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ id: 'exec-2' }),
+        expect.objectContaining({
+          nextNodeId: 'answer',
+          // followup ran after answer, so it runs again instead of returning its recorded output
+          nodeOutputs: { classify: { nodeId: 'classify' } },
+          state: { topic: 'billing', retries: 0 },
+        }),
+        { secrets: [] }
+      );
+    });
+  });
+
+  describe('executeWorkflow', () => {
+    it('should scrub secret config values from logged errors', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockConfigService.resolveConfigVariables.mockResolvedValue({
+        variables: { API_KEY: 'sk-live-123456' },
+        secretKeys: ['API_KEY'],
+      });
+      mockOrchestrator.execute.mockRejectedValue(new Error('Request to https://api.example.com?key=sk-live-123456 failed'));
+
+      await executionService.executeWorkflow('workflow-1', {});
+
+      expect(error).toHaveBeenCalledWith('Workflow execution failed:', expect.stringContaining('key=[REDACTED] failed'));
+      expect(JSON.stringify(error.mock.calls)).not.toContain('sk-live-123456');
+
+      error.mockRestore();
+    });
+  });
+});
@@ -1,9 +1,21 @@
-import { ExecutionRepository } from '../repositories/execution.repository';
+import { ExecutionRepository, FINISHED_STATUSES } from '../repositories/execution.repository';
 import { NodeExecutionRepository } from '../repositories/node-execution.repository';
 import { WorkflowRepository } from '../repositories/workflow.repository';
 import { WorkflowOrchestrator } from '../orchestration/workflow-orchestrator';
+import { abortExecution } from '../orchestration/execution-registry';
+import { resolveParameters } from '../orchestration/workflow-parameters';
+import { parseTraceparent } from '../orchestration/tracing';
 import { ConfigService } from './config.service';
-import type { ExecutionModel, NodeExecutionModel } from '../domain/entities';
+import { ThreadService } from './thread.service';
+import { signPayload } from '../utils/helpers';
+import { validateJsonSchema } from '../utils/json-schema';
+import { collectSecretValues, maskSecretVariables, restoreRedacted, scrubSecrets } from '../utils/redact';
+import { SchemaValidationError } from '../domain/errors';
+import type { ReplayExecutionDTO } from '../schemas/dtos';
+import type { ExecutionCheckpoint, ExecutionModel, NodeExecutionModel, ThreadModel, WorkflowModel } from '../domain/entities';
+
+// A running execution whose checkpoint and heartbeat have not moved for this long is assumed to be orphaned
+const STALE_EXECUTION_MS = 60_000;
 
 export class ExecutionService {
   constructor(
@@ -11,50 +23,394 @@ export class ExecutionService {
     private nodeExecRepo: NodeExecutionRepository,
     private workflowRepo: WorkflowRepository,
     private orchestrator: WorkflowOrchestrator,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private callbackSigningSecret?: string,
+    private threadService?: ThreadService
   ) {}
 
   async executeWorkflow(
     workflowId: string,
     parameters: Record<string, any>,
     configId?: string,
-		stream: boolean = false
+		stream: boolean = false,
+    options: { coerceParameters?: boolean; threadId?: string; traceparent?: string } = {}
   ): Promise<ExecutionModel | Response> {
-    const workflow = await this.workflowRepo.findById(workflowId);
-    if (!workflow) {
+    const { workflow, execution, secrets } = await this.createExecution(workflowId, parameters, configId, options);
+    const runOptions = { traceParent: parseTraceparent(options.traceparent), secrets };
+
+    await this.executionRepo.updateStatus(execution.id, 'running');
+
+		if (stream) {
+			return await this.orchestrator.executeWithStreaming(workflow, execution, undefined, undefined, runOptions) as Response;
+		}
+
+    try {
+      await this.orchestrator.execute(workflow, execution, undefined, runOptions);
+    } catch (error: any) {
+      this.logError('Workflow execution failed:', error, secrets);
+    }
+
+    return await this.executionRepo.findById(execution.id) || execution;
+  }
+
+  /**
+   * Creates the execution and hands the run to `waitUntil`, so the caller can respond right away.
+   * When `callbackUrl` is set, the execution is POSTed there once the run stops.
+   */
+  async startExecution(
+    workflowId: string,
+    parameters: Record<string, any>,
+    configId: string | undefined,
+    options: {
+      callbackUrl?: string;
+      threadId?: string;
+      traceparent?: string;
+      waitUntil: (promise: Promise<unknown>) => void;
+    }
+  ): Promise<ExecutionModel> {
+    if (options.callbackUrl && !this.callbackSigningSecret) {
+      throw new Error('callbackUrl requires the CALLBACK_SIGNING_SECRET secret to be configured');
+    }
+
+    const { workflow, execution, persisted, secrets } = await this.createExecution(workflowId, parameters, configId, {
+      threadId: options.threadId,
+    });
+
+    options.waitUntil(this.runInBackground(workflow, execution, secrets, options.callbackUrl, options.traceparent));
+
+    return persisted;
+  }
+
+  private async createExecution(
+    workflowId: string,
+    parameters: Record<string, any>,
+    configId?: string,
+    options: { coerceParameters?: boolean; threadId?: string } = {}
+  ): Promise<{ workflow: WorkflowModel; execution: ExecutionModel; persisted: ExecutionModel; secrets: string[] }> {
+    const stored = await this.workflowRepo.findById(workflowId);
+    if (!stored) {
       throw new Error('Workflow not found');
     }
 
+    const resolvedParameters = resolveParameters(stored, parameters, { coerce: options.coerceParameters });
+
+    const thread = options.threadId ? await this.resolveThread(options.threadId, stored) : null;
+    const workflow = thread ? this.withThreadState(stored, thread) : stored;
+
     const resolvedConfigId = configId || workflow.defaultConfigId || null;
 
-    const configVariables = await this.configService.getConfigVariables(resolvedConfigId);
+    const { variables, secretKeys } = await this.configService.resolveConfigVariables(resolvedConfigId);
 
-    const execution = await this.executionRepo.create({
+    const persisted = await this.executionRepo.create({
       workflowId: workflowId,
       status: 'pending',
-      parameters: parameters,
-      config: configVariables,
+      parameters: resolvedParameters,
+      // Secrets are masked in the row; the run gets them from the config
+      config: maskSecretVariables(variables, secretKeys),
       configId: resolvedConfigId,
       result: null,
       error: null,
       completedAt: null,
+      threadId: thread?.id ?? null,
     });
 
-    await this.executionRepo.updateStatus(execution.id, 'running');
+    return {
+      workflow,
+      execution: { ...persisted, config: variables },
+      persisted,
+      secrets: collectSecretValues(variables, secretKeys),
+    };
+  }
 
-		if (stream) {
-			return await this.orchestrator.executeWithStreaming(workflow, execution) as Response;
+  /**
+   * Puts the secrets masked in a persisted execution config back, from the execution's config.
+   */
+  private async withConfigSecrets(execution: ExecutionModel): Promise<{ execution: ExecutionModel; secrets: string[] }> {
+    const { variables, secretKeys } = await this.configService.resolveConfigVariables(execution.configId);
+
+    return {
+      execution: { ...execution, config: restoreRedacted(execution.config, variables) },
+      secrets: collectSecretValues(variables, secretKeys),
+    };
+  }
+
+  private async resolveThread(threadId: string, workflow: WorkflowModel): Promise<ThreadModel> {
+    if (!this.threadService) {
+      throw new Error('Threads are not supported for this execution');
+    }
+    return await this.threadService.resolveThread(threadId, workflow);
+  }
+
+  // The thread state wins over the workflow's initial state, which only seeds keys the thread has not set yet
+  private withThreadState(workflow: WorkflowModel, thread: ThreadModel): WorkflowModel {
+    return { ...workflow, state: { ...workflow.state, ...thread.state } };
+  }
+
+  private async runInBackground(
+    workflow: WorkflowModel,
+    execution: ExecutionModel,
+    secrets: string[],
+    callbackUrl?: string,
+    traceparent?: string
+  ): Promise<void> {
+    // Nothing may reject out of here: `waitUntil` would swallow it and leave the execution `running`
+    try {
+      await this.executionRepo.updateStatus(execution.id, 'running');
+      await this.orchestrator.execute(workflow, execution, undefined, { traceParent: parseTraceparent(traceparent), secrets });
+    } catch (error: any) {
+      this.logError('Workflow execution failed:', error, secrets);
+      await this.markFailed(execution.id, error, secrets);
+    }
+
+    if (!callbackUrl) {
+      return;
+    }
+
+    try {
+      const finished = await this.executionRepo.findById(execution.id) || execution;
+      await this.sendCallback(callbackUrl, finished);
+    } catch (error: any) {
+      this.logError(`Execution callback to ${callbackUrl} failed:`, error, secrets);
+    }
+  }
+
+  // The orchestrator records the failures of the run itself; this covers errors around it, e.g. a failed status write
+  private async markFailed(executionId: string, error: any, secrets: string[]): Promise<void> {
+    try {
+      await this.executionRepo.updateUnlessFinished(executionId, {
+        status: 'failed',
+        error: scrubSecrets(error?.message ?? String(error), secrets),
+        completedAt: new Date(),
+      });
+    } catch (updateError: any) {
+      this.logError(`Could not mark execution ${executionId} as failed:`, updateError, secrets);
+    }
+  }
+
+  // Errors can quote the secrets they were thrown with, e.g. a URL a config token was templated into
+  private logError(message: string, error: any, secrets: string[]): void {
+    console.error(message, scrubSecrets(String(error?.stack ?? error?.message ?? error), secrets));
+  }
+
+  private async sendCallback(callbackUrl: string, execution: ExecutionModel): Promise<void> {
+    const body = JSON.stringify(execution);
+    const signature = await signPayload(this.callbackSigningSecret!, body);
+
+    const response = await fetch(callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Execution-Id': execution.id,
+        'X-Signature': `sha256=${signature}`,
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Callback responded with status ${response.status}`);
+    }
+  }
+
+  async resumeExecution(
+    workflowId: string,
+    executionId: string,
+    options: { stream?: boolean; force?: boolean; input?: any } = {}
+  ): Promise<ExecutionModel | Response> {
+    const persisted = await this.getExecution(executionId);
+    if (persisted.workflowId !== workflowId) {
+      throw new Error('Execution not found');
+    }
+
+    const { execution, secrets } = await this.withConfigSecrets(persisted);
+
+    if (execution.status === 'completed') {
+      throw new Error('Execution already completed');
+    }
+
+    if (execution.status === 'cancelled') {
+      throw new Error('Execution was cancelled');
+    }
+
+    if (execution.status === 'running' && !options.force) {
+      // Nodes refresh the heartbeat while they run, checkpoints are written between them
+      const lastActivity = Math.max(
+        new Date(execution.checkpoint?.updatedAt || execution.createdAt).getTime(),
+        execution.heartbeatAt ? new Date(execution.heartbeatAt).getTime() : 0
+      );
+      if (Date.now() - lastActivity < STALE_EXECUTION_MS) {
+        throw new Error('Execution is still running');
+      }
+    }
+
+    const stored = await this.workflowRepo.findById(workflowId);
+    if (!stored) {
+      throw new Error('Workflow not found');
+    }
+
+    // Checkpoints carry the state; without one the run starts over from the thread state
+    const workflow = execution.threadId && !execution.checkpoint
+      ? this.withThreadState(stored, await this.resolveThread(execution.threadId, stored))
+      : stored;
+
+    // Without a checkpoint no node completed yet, so the run starts over from the start node
+    const checkpoint = execution.status === 'waiting'
+      ? this.attachWaitingInput(workflow, execution, options.input)
+      : execution.checkpoint || undefined;
+
+    // Two resumes of the same checkpoint would run the rest of the graph twice; only one gets the claim
+    if (!(await this.executionRepo.claimForResume(persisted))) {
+      throw new Error('Execution changed while resuming, it is probably being resumed already');
+    }
+
+		if (options.stream) {
+			return await this.orchestrator.executeWithStreaming(workflow, execution, undefined, checkpoint, { secrets }) as Response;
 		}
 
     try {
-      await this.orchestrator.execute(workflow, execution);
+      await this.orchestrator.execute(workflow, execution, checkpoint, { secrets });
     } catch (error: any) {
-      console.error('Workflow execution failed:', error);
+      this.logError('Workflow execution failed:', error, secrets);
     }
 
     return await this.executionRepo.findById(execution.id) || execution;
   }
 
+  /**
+   * Runs a new execution that starts at `fromNode`, seeded with the node outputs and final state
+   * of a recorded execution, so earlier nodes (embeddings, searches, ...) are not run again.
+   */
+  async replayExecution(
+    workflowId: string,
+    executionId: string,
+    dto: ReplayExecutionDTO
+  ): Promise<ExecutionModel | Response> {
+    const source = await this.getExecution(executionId);
+    if (source.workflowId !== workflowId) {
+      throw new Error('Execution not found');
+    }
+
+    const stored = await this.workflowRepo.findById(workflowId);
+    if (!stored) {
+      throw new Error('Workflow not found');
+    }
+
+    const workflow = { ...stored, ...dto.workflow } as WorkflowModel;
+    if (!workflow.nodes.some((node) => node.id === dto.fromNode)) {
+      throw new Error(`Node '${dto.fromNode}' does not exist in workflow`);
+    }
+
+    // Only what ran before `fromNode` first ran is seeded; `fromNode` and the nodes after it run again
+    const nodeResults = [...await this.nodeExecRepo.findByExecutionId(source.id)]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const fromIndex = nodeResults.findIndex((result) => result.nodeId === dto.fromNode);
+    const before = fromIndex === -1 ? nodeResults : nodeResults.slice(0, fromIndex);
+
+    // Later attempts and loop iterations overwrite earlier outputs, as they did during the run
+    const nodeOutputs: Record<string, any> = {};
+    for (const result of before) {
+      if (result.status === 'completed') {
+        nodeOutputs[result.nodeId] = result.output;
+      }
+    }
+
+    const checkpoint: ExecutionCheckpoint = {
+      nextNodeId: dto.fromNode,
+      nodeOutputs,
+      state: dto.state || this.replayState(workflow, before),
+      iterations: 0,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const { execution, secrets } = await this.withConfigSecrets(await this.executionRepo.create({
+      workflowId: workflowId,
+      status: 'running',
+      parameters: dto.parameters ? resolveParameters(workflow, dto.parameters) : source.parameters,
+      config: source.config,
+      configId: source.configId,
+      result: null,
+      error: null,
+      completedAt: null,
+    }));
+
+		if (dto.stream) {
+			return await this.orchestrator.executeWithStreaming(workflow, execution, undefined, checkpoint, { secrets }) as Response;
+		}
+
+    try {
+      await this.orchestrator.execute(workflow, execution, checkpoint, { secrets });
+    } catch (error: any) {
+      this.logError('Workflow execution failed:', error, secrets);
+    }
+
+    return await this.executionRepo.findById(execution.id) || execution;
+  }
+
+  // Applies the recorded state changes of `nodeResults` in run order to the workflow's initial state
+  private replayState(workflow: WorkflowModel, nodeResults: NodeExecutionModel[]): Record<string, any> {
+    const state: Record<string, any> = structuredClone(workflow.state || {});
+
+    for (const result of nodeResults) {
+      for (const [key, { after }] of Object.entries(result.stateDiff || {})) {
+        state[key] = after;
+      }
+    }
+
+    return state;
+  }
+
+  async cancelExecution(workflowId: string, executionId: string): Promise<ExecutionModel> {
+    const execution = await this.getExecution(executionId);
+    if (execution.workflowId !== workflowId) {
+      throw new Error('Execution not found');
+    }
+
+    if (FINISHED_STATUSES.includes(execution.status)) {
+      throw new Error(`Execution already ${execution.status.replace('_', ' ')}`);
+    }
+
+    await this.cancelExecutionTree(execution.id);
+
+    return await this.executionRepo.findById(execution.id) || execution;
+  }
+
+  private async cancelExecutionTree(executionId: string): Promise<void> {
+    // A run that finished since it was read keeps its status
+    await this.executionRepo.updateUnlessFinished(executionId, {
+      status: 'cancelled',
+      error: 'Execution cancelled',
+      completedAt: new Date(),
+    });
+
+    // Executions running in another isolate stop at their next node when they see the status
+    abortExecution(executionId);
+
+    const children = await this.executionRepo.findByParentExecutionId(executionId);
+    for (const child of children) {
+      if (!FINISHED_STATUSES.includes(child.status)) {
+        await this.cancelExecutionTree(child.id);
+      }
+    }
+  }
+
+  private attachWaitingInput(workflow: WorkflowModel, execution: ExecutionModel, input: any): ExecutionCheckpoint {
+    const checkpoint = execution.checkpoint;
+    const node = workflow.nodes.find((n) => n.id === checkpoint?.nextNodeId);
+    if (!checkpoint || node?.type !== 'wait_for_input') {
+      throw new Error('Execution is not waiting on a wait_for_input node');
+    }
+
+    if (input === undefined) {
+      throw new Error(`Execution is waiting for input at node '${node.id}'`);
+    }
+
+    const errors = node.config.schema ? validateJsonSchema(input, node.config.schema) : [];
+    if (errors.length > 0) {
+      throw new SchemaValidationError(`Input does not match the schema of wait_for_input node '${node.id}'`, errors);
+    }
+
+    return { ...checkpoint, input };
+  }
+
   async getExecution(id: string): Promise<ExecutionModel> {
     const execution = await this.executionRepo.findById(id);
     if (!execution) {
@@ -63,6 +419,16 @@ export class ExecutionService {
     return execution;
   }
 
+  // Ordered by start time, so loop passes and retries read in the order they ran
+  async listNodeExecutions(workflowId: string, executionId: string): Promise<NodeExecutionModel[]> {
+    const execution = await this.getExecution(executionId);
+    if (execution.workflowId !== workflowId) {
+      throw new Error('Execution not found');
+    }
+
+    return await this.nodeExecRepo.findByExecutionId(execution.id);
+  }
+
   async listExecutionsByWorkflow(workflowId: string): Promise<Array<ExecutionModel & { node_results: NodeExecutionModel[] }>> {
     const executions = await this.executionRepo.findByWorkflowId(workflowId);
 
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExecutorService } from './executor.service';
+import { NodeExecutorFactory } from '../orchestration/node-executor.factory';
+
+describe('ExecutorService', () => {
+  let executorService: ExecutorService;
+
+  beforeEach(() => {
+    // Executors only check their bindings exist when constructed
+    executorService = new ExecutorService(new NodeExecutorFactory({ AI: {} } as any));
+  });
+
+  it('should list the registered executors and the control nodes once each', () => {
+    const types = executorService.listExecutors().map((info) => info.type);
+
+    expect(types).toEqual(expect.arrayContaining([
+      'data_transformer', 'llm', 'memory', 'join', 'workflow_executor', 'map', 'wait_for_input',
+    ]));
+    expect(new Set(types).size).toBe(types.length);
+  });
+
+  it('should give every entry the JSON Schema of its config', () => {
+    for (const info of executorService.listExecutors()) {
+      expect(info.configSchema, info.type).toEqual(expect.objectContaining({ type: 'object' }));
+      expect(Object.keys(info.configSchema.properties ?? {}).length, info.type).toBeGreaterThan(0);
+    }
+
+    expect(executorService.getExecutor('map')).toEqual({
+      type: 'map',
+      description: expect.any(String),
+      supportsStreaming: false,
+      configSchema: expect.objectContaining({
+        properties: expect.objectContaining({
+          items: expect.anything(),
+          concurrency: expect.objectContaining({ type: 'integer', default: 1 }),
+        }),
+      }),
+    });
+  });
+
+  it('should reject an unknown type', () => {
+    expect(() => executorService.getExecutor('teleport')).toThrow("Executor 'teleport' not found");
+  });
+});
@@ -0,0 +1,49 @@
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CONTROL_NODES } from '../orchestration/control-nodes';
+import { NodeExecutorFactory } from '../orchestration/node-executor.factory';
+
+export interface ExecutorInfo {
+	type: string;
+	description: string | null;
+	supportsStreaming: boolean;
+	// JSON Schema of the node config, before `{{...}}` templates are resolved
+	configSchema: Record<string, any>;
+}
+
+export class ExecutorService {
+	constructor(private nodeFactory: NodeExecutorFactory) {}
+
+	listExecutors(): ExecutorInfo[] {
+		const executors = this.nodeFactory.listExecutors().map(([type, executor]) =>
+			this.toInfo(type, executor.description, executor.supportsStreaming, executor.getConfigSchema())
+		);
+
+		const controlNodes = CONTROL_NODES.map((node) =>
+			this.toInfo(node.type, node.description, false, node.configSchema)
+		);
+
+		return [...executors, ...controlNodes];
+	}
+
+	getExecutor(type: string): ExecutorInfo {
+		const executor = this.listExecutors().find((info) => info.type === type);
+		if (!executor) {
+			throw new Error(`Executor '${type}' not found`);
+		}
+		return executor;
+	}
+
+	private toInfo(
+		type: string,
+		description: string | undefined,
+		supportsStreaming: boolean,
+		schema: Parameters<typeof zodToJsonSchema>[0]
+	): ExecutorInfo {
+		return {
+			type,
+			description: description ?? null,
+			supportsStreaming,
+			configSchema: zodToJsonSchema(schema, { target: 'jsonSchema7', $refStrategy: 'none' }),
+		};
+	}
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ThreadService } from './thread.service';
+import type { ThreadModel, WorkflowModel } from '../domain/entities';
+
+describe('ThreadService', () => {
+  let threads: Map<string, ThreadModel>;
+  let mockThreadRepo: any;
+  let mockExecutionRepo: any;
+  let threadService: ThreadService;
+
+  const workflow = { id: 'workflow-1' } as WorkflowModel;
+
+  beforeEach(() => {
+    threads = new Map();
+    mockThreadRepo = {
+      findById: vi.fn(async (id: string) => threads.get(id) ?? null),
+      // Like the insert it stands in for, keeps the first row written for an id
+      createWithId: vi.fn(async (id: string, thread: any) => {
+        if (!threads.has(id)) {
+          threads.set(id, { ...thread, id, createdAt: new Date(), updatedAt: new Date() });
+        }
+        return threads.get(id);
+      }),
+      update: vi.fn(async (id: string, data: any) => {
+        threads.set(id, { ...threads.get(id)!, ...data });
+        return threads.get(id);
+      }),
+    };
+    mockExecutionRepo = {
+      findByThreadId: vi.fn().mockResolvedValue([]),
+    };
+
+    threadService = new ThreadService(mockThreadRepo, mockExecutionRepo);
+  });
+
+  it('should create a thread on the first execution that names it', async () => {
+    const thread = await threadService.resolveThread('thread-1', workflow);
+
+    expect(thread).toEqual(expect.objectContaining({
+      id: 'thread-1',
+      workflowId: 'workflow-1',
+      state: {},
+      parentThreadId: null,
+      lastExecutionId: null,
+    }));
+    expect(threads.size).toBe(1);
+  });
+
+  it('should continue an existing thread with its state and executions', async () => {
+    await threadService.resolveThread('thread-1', workflow);
+    await mockThreadRepo.update('thread-1', { state: { turns: 1 }, lastExecutionId: 'exec-1' });
+    mockExecutionRepo.findByThreadId.mockResolvedValue([
+      { id: 'exec-1', status: 'completed', createdAt: new Date(1), completedAt: new Date(2), parameters: {} },
+      { id: 'exec-2', status: 'running', createdAt: new Date(3), completedAt: null, parameters: {} },
+    ]);
+
+    const thread = await threadService.resolveThread('thread-1', workflow);
+
+    expect(thread.state).toEqual({ turns: 1 });
+    expect(mockThreadRepo.createWithId).toHaveBeenCalledTimes(1);
+    expect((await threadService.getThread('thread-1')).executions).toEqual([
+      { id: 'exec-1', status: 'completed', createdAt: new Date(1), completedAt: new Date(2) },
+      { id: 'exec-2', status: 'running', createdAt: new Date(3), completedAt: null },
+    ]);
+  });
+
+  it('should give concurrent executions of a new thread the same thread', async () => {
+    const [first, second] = await Promise.all([
+      threadService.resolveThread('thread-1', workflow),
+      threadService.resolveThread('thread-1', workflow),
+    ]);
+
+    // Both missed the lookup, but only one row exists and both got it
+    expect(mockThreadRepo.createWithId).toHaveBeenCalledTimes(2);
+    expect(threads.size).toBe(1);
+    expect(second).toBe(first);
+  });
+
+  it('should reject a thread created concurrently by another workflow', async () => {
+    const [, other] = await Promise.allSettled([
+      threadService.resolveThread('thread-1', workflow),
+      threadService.resolveThread('thread-1', { id: 'workflow-2' } as WorkflowModel),
+    ]);
+
+    expect(other).toEqual({
+      status: 'rejected',
+      reason: new Error("Thread 'thread-1' belongs to another workflow"),
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { ThreadRepository } from '../repositories/thread.repository';
+import { ExecutionRepository } from '../repositories/execution.repository';
+import type { ExecutionModel, ThreadModel, WorkflowModel } from '../domain/entities';
+
+export type ThreadDetails = ThreadModel & {
+  executions: Pick<ExecutionModel, 'id' | 'status' | 'createdAt' | 'completedAt'>[];
+};
+
+export class ThreadService {
+  constructor(
+    private threadRepo: ThreadRepository,
+    private executionRepo: ExecutionRepository
+  ) {}
+
+  async listThreads(workflowId?: string): Promise<ThreadModel[]> {
+    return await this.threadRepo.findRecent(workflowId);
+  }
+
+  async getThread(id: string): Promise<ThreadDetails> {
+    const thread = await this.threadRepo.findById(id);
+    if (!thread) {
+      throw new Error('Thread not found');
+    }
+
+    const executions = await this.executionRepo.findByThreadId(id);
+
+    return {
+      ...thread,
+      executions: executions.map(({ id, status, createdAt, completedAt }) => ({ id, status, createdAt, completedAt })),
+    };
+  }
+
+  /**
+   * Starts a new thread from the state of `id`, so a conversation can branch without changing the original.
+   * `state` is merged over the copied state.
+   */
+  async forkThread(id: string, state: Record<string, any> = {}): Promise<ThreadModel> {
+    const thread = await this.threadRepo.findById(id);
+    if (!thread) {
+      throw new Error('Thread not found');
+    }
+
+    return await this.threadRepo.create({
+      workflowId: thread.workflowId,
+      state: { ...thread.state, ...state },
+      parentThreadId: thread.id,
+      lastExecutionId: thread.lastExecutionId,
+    });
+  }
+
+  async deleteThread(id: string): Promise<void> {
+    const exists = await this.threadRepo.exists(id);
+    if (!exists) {
+      throw new Error('Thread not found');
+    }
+
+    await this.threadRepo.delete(id);
+  }
+
+  /**
+   * Returns the thread an execution of `workflow` continues, creating it on first use.
+   */
+  async resolveThread(id: string, workflow: WorkflowModel): Promise<ThreadModel> {
+    // The thread another execution created in the meantime is returned as well, so it is checked the same way
+    const thread = await this.threadRepo.findById(id) ?? await this.threadRepo.createWithId(id, {
+      workflowId: workflow.id,
+      state: {},
+      parentThreadId: null,
+      lastExecutionId: null,
+    });
+
+    if (thread.workflowId !== workflow.id) {
+      throw new Error(`Thread '${id}' belongs to another workflow`);
+    }
+
+    return thread;
+  }
+}
@@ -1,12 +1,40 @@
 import { WorkflowRepository } from '../repositories/workflow.repository';
 import type { CreateWorkflowDTO, NodeDTO, UpdateWorkflowDTO } from '../schemas/dtos';
-import type { Edge, WorkflowModel } from '../domain/entities';
+import { NodeSchema } from '../domain/entities';
+import type { Edge, LintIssue, ParallelEdge, WorkflowModel } from '../domain/entities';
+import { WorkflowInUseError, WorkflowValidationError } from '../domain/errors';
+import { lintWorkflow } from '../orchestration/workflow-linter';
+import type { LintOptions } from '../orchestration/workflow-linter';
+import { CONTROL_NODE_TYPES } from '../orchestration/control-nodes';
+import { findCallCycle, findWorkflowCalls } from '../orchestration/workflow-calls';
+import { NodeExecutorFactory } from '../orchestration/node-executor.factory';
+import { findNodeConfigIssues } from '../utils/node-config';
+import { ConfigService } from './config.service';
+
+export interface WorkflowDependency {
+  workflowId: string;
+  // Null when the referenced workflow does not exist (any more)
+  name: string | null;
+  nodeIds: string[];
+}
+
+export interface WorkflowDependencies {
+  // Workflows this workflow runs through workflow_executor or map nodes with a static workflow_id
+  calls: WorkflowDependency[];
+  // Workflows that run this workflow
+  calledBy: WorkflowDependency[];
+}
 
 export class WorkflowService {
-  constructor(private workflowRepo: WorkflowRepository) {}
+  constructor(
+    private workflowRepo: WorkflowRepository,
+    private configService?: ConfigService,
+    private nodeFactory?: NodeExecutorFactory
+  ) {}
 
   async createWorkflow(dto: CreateWorkflowDTO): Promise<WorkflowModel> {
     this.validateWorkflow(dto);
+    await this.assertNoLintErrors(dto);
 
     return await this.workflowRepo.create({ ...dto, state: {}, maxIterations: 50 });
   }
@@ -29,6 +57,10 @@ export class WorkflowService {
       throw new Error('Workflow not found');
     }
 
+    const merged = { ...existing, ...dto } as CreateWorkflowDTO;
+    this.validateWorkflow(merged);
+    await this.assertNoLintErrors(merged, id);
+
     const updated = await this.workflowRepo.update(id, dto);
 
     if (!updated) {
@@ -38,15 +70,179 @@ export class WorkflowService {
     return updated;
   }
 
-  async deleteWorkflow(id: string): Promise<void> {
+  /**
+   * Refuses to delete a workflow that other workflows call unless `force` is set,
+   * since their workflow_executor and map nodes would fail at runtime.
+   */
+  async deleteWorkflow(id: string, force: boolean = false): Promise<void> {
     const existing = await this.workflowRepo.findById(id);
     if (!existing) {
       throw new Error('Workflow not found');
     }
 
+    if (!force) {
+      const { calledBy } = await this.getDependencies(id);
+      const dependents = calledBy.filter((dependency) => dependency.workflowId !== id);
+      if (dependents.length > 0) {
+        throw new WorkflowInUseError(id, dependents.map((dependency) => dependency.workflowId));
+      }
+    }
+
     await this.workflowRepo.delete(id);
   }
 
+  async getDependencies(id: string): Promise<WorkflowDependencies> {
+    const workflow = await this.getWorkflow(id);
+    const workflows = await this.workflowRepo.findAll();
+    const names = new Map(workflows.map((w) => [w.id, w.name]));
+
+    const group = (entries: Array<{ workflowId: string; nodeId: string }>): WorkflowDependency[] => {
+      const byWorkflow = new Map<string, string[]>();
+      for (const { workflowId, nodeId } of entries) {
+        byWorkflow.set(workflowId, [...(byWorkflow.get(workflowId) || []), nodeId]);
+      }
+      return Array.from(byWorkflow, ([workflowId, nodeIds]) => ({ workflowId, name: names.get(workflowId) ?? null, nodeIds }));
+    };
+
+    const calledBy = workflows.flatMap((caller) =>
+      findWorkflowCalls(caller.nodes as NodeDTO[])
+        .filter((call) => call.workflowId === id)
+        .map((call) => ({ workflowId: caller.id, nodeId: call.nodeId }))
+    );
+
+    return {
+      calls: group(findWorkflowCalls(workflow.nodes as NodeDTO[])),
+      calledBy: group(calledBy),
+    };
+  }
+
+	/**
+	 * Structural errors from `validateWorkflow` are reported as a single `invalid_workflow` issue,
+	 * since the graph checks cannot run on a definition that references missing nodes.
+	 */
+	public async lintWorkflow(workflow: CreateWorkflowDTO): Promise<{ valid: boolean; issues: LintIssue[] }> {
+		try {
+			this.validateWorkflow(workflow);
+		} catch (error: any) {
+			return {
+				valid: false,
+				issues: [{ severity: 'error', code: 'invalid_workflow', message: error.message }],
+			};
+		}
+
+		const issues = await this.collectIssues(workflow);
+		return {
+			valid: !issues.some((issue) => issue.severity === 'error'),
+			issues,
+		};
+	}
+
+	private async assertNoLintErrors(workflow: CreateWorkflowDTO, workflowId?: string): Promise<void> {
+		const issues = await this.collectIssues(workflow, workflowId);
+		if (issues.some((issue) => issue.severity === 'error')) {
+			throw new WorkflowValidationError(issues);
+		}
+	}
+
+	private async collectIssues(workflow: CreateWorkflowDTO, workflowId?: string): Promise<LintIssue[]> {
+		const nodeIssues = await this.checkNodeConfigs(workflow.nodes as NodeDTO[], 'nodes');
+		const callIssues = workflowId ? await this.checkWorkflowCalls(workflow, workflowId) : [];
+		return [...nodeIssues, ...callIssues, ...lintWorkflow(workflow, await this.getLintOptions(workflow))];
+	}
+
+	/**
+	 * Reports workflow_executor and map calls that lead back to `workflowId` through the stored workflows.
+	 * Only saved workflows can be called, so a workflow that is being created cannot be part of a cycle yet.
+	 */
+	private async checkWorkflowCalls(workflow: CreateWorkflowDTO, workflowId: string): Promise<LintIssue[]> {
+		const calls = findWorkflowCalls(workflow.nodes as NodeDTO[]);
+		if (calls.length === 0) {
+			return [];
+		}
+
+		const workflows = await this.workflowRepo.findAll();
+		const names = new Map(workflows.map((w) => [w.id, w.name]));
+		names.set(workflowId, workflow.name);
+
+		const callGraph = new Map(
+			workflows.map((w) => [w.id, findWorkflowCalls(w.nodes as NodeDTO[]).map((call) => call.workflowId)])
+		);
+		callGraph.set(workflowId, calls.map((call) => call.workflowId));
+
+		const cycle = findCallCycle(workflowId, callGraph);
+		if (!cycle) {
+			return [];
+		}
+
+		const chain = cycle.map((id) => `'${names.get(id) ?? id}'`).join(' -> ');
+		return calls
+			.filter((call) => call.workflowId === cycle[1])
+			.map((call) => ({
+				severity: 'error' as const,
+				code: 'workflow_call_cycle',
+				message: `Node '${call.nodeId}' calls workflow '${call.workflowId}', which leads back to this workflow: ${chain}`,
+				nodeId: call.nodeId,
+				path: call.path,
+			}));
+	}
+
+	/**
+	 * Checks each node config against its executor's schema before templates are resolved, so
+	 * `{{...}}` strings are accepted wherever a value is expected. Inline map chains are checked too.
+	 */
+	private async checkNodeConfigs(nodes: NodeDTO[], basePath: string): Promise<LintIssue[]> {
+		if (!this.nodeFactory) {
+			return [];
+		}
+
+		const issues: LintIssue[] = [];
+
+		for (const [index, node] of nodes.entries()) {
+			const nodePath = `${basePath}[${index}]`;
+
+			if (CONTROL_NODE_TYPES.has(node.type)) {
+				if (node.type === 'map' && Array.isArray(node.config?.nodes)) {
+					issues.push(...(await this.checkNodeConfigs(node.config.nodes, `${nodePath}.config.nodes`)));
+				}
+				continue;
+			}
+
+			const executor = await this.nodeFactory.getExecutor(node.type);
+			if (!executor) {
+				issues.push({
+					severity: 'error',
+					code: 'unknown_node_type',
+					message: `Node '${node.id}' has unknown type '${node.type}'`,
+					nodeId: node.id,
+					path: `${nodePath}.type`,
+				});
+				continue;
+			}
+
+			for (const issue of findNodeConfigIssues(executor.getConfigSchema(), node.config, { allowTemplates: true })) {
+				const path = issue.path ? `${nodePath}.config.${issue.path}` : `${nodePath}.config`;
+				issues.push({
+					severity: 'error',
+					code: 'invalid_node_config',
+					message: `Node '${node.id}' has invalid config at '${issue.path || 'config'}': ${issue.message}`,
+					nodeId: node.id,
+					path,
+				});
+			}
+		}
+
+		return issues;
+	}
+
+	private async getLintOptions(workflow: CreateWorkflowDTO): Promise<LintOptions> {
+		if (!this.configService || !workflow.defaultConfigId) {
+			return {};
+		}
+
+		const config = await this.configService.getConfig(workflow.defaultConfigId);
+		return config ? { configKeys: Object.keys(config.variables) } : {};
+	}
+
 	public validateWorkflow(workflow: CreateWorkflowDTO): void {
 		const nodeIds = new Set((workflow.nodes as NodeDTO[]).map((n) => n.id));
 		const edges = workflow.edges as Edge[];
@@ -59,6 +255,16 @@ export class WorkflowService {
 			throw new Error(`End node '${workflow.endNode}' does not exist in workflow`);
 		}
 
+		for (const node of workflow.nodes as NodeDTO[]) {
+			if (node.type === 'map') {
+				this.validateMapNode(node);
+			}
+
+			if (node.type === 'wait_for_input') {
+				this.validateWaitForInputNode(node, workflow.endNode);
+			}
+		}
+
 		for (const edge of edges) {
 			if (!nodeIds.has(edge.from)) {
 				throw new Error(`Edge '${edge.id}' references non-existent 'from' node: ${edge.from}`);
@@ -67,12 +273,39 @@ export class WorkflowService {
 			if ('to' in edge && !nodeIds.has(edge.to)) {
 				throw new Error(`Edge '${edge.id}' references non-existent 'to' node: ${edge.to}`);
 			}
+
+			if ('onError' in edge && !nodeIds.has(edge.onError)) {
+				throw new Error(`Edge '${edge.id}' references non-existent 'onError' node: ${edge.onError}`);
+			}
+
+			if ('default' in edge && edge.default !== undefined && !nodeIds.has(edge.default)) {
+				throw new Error(`Edge '${edge.id}' references non-existent 'default' node: ${edge.default}`);
+			}
+
+			if ('cases' in edge) {
+				for (const [value, target] of Object.entries(edge.cases)) {
+					if (!nodeIds.has(target)) {
+						throw new Error(`Switch edge '${edge.id}' case '${value}' references non-existent node: ${target}`);
+					}
+				}
+			}
+
+			if ('branches' in edge) {
+				this.validateParallelEdge(edge, workflow.nodes as NodeDTO[]);
+			}
 		}
 
 		const outgoingEdgesCount = new Map<string, number>();
+		const errorEdgesCount = new Map<string, number>();
 		for (const edge of edges) {
-			const count = outgoingEdgesCount.get(edge.from) || 0;
-			outgoingEdgesCount.set(edge.from, count + 1);
+			const counts = 'onError' in edge ? errorEdgesCount : outgoingEdgesCount;
+			counts.set(edge.from, (counts.get(edge.from) || 0) + 1);
+		}
+
+		for (const [nodeId, count] of errorEdgesCount.entries()) {
+			if (count > 1) {
+				throw new Error(`Node '${nodeId}' has ${count} error edges. Each node can only have one error edge.`);
+			}
 		}
 
 		for (const [nodeId, count] of outgoingEdgesCount.entries()) {
@@ -81,4 +314,70 @@ export class WorkflowService {
 			}
 		}
 	}
+
+	private validateMapNode(node: NodeDTO): void {
+		const { items, workflow_id, nodes } = node.config;
+
+		if (items === undefined) {
+			throw new Error(`Map node '${node.id}' requires items in config`);
+		}
+
+		const hasChain = Array.isArray(nodes) && nodes.length > 0;
+		if (!!workflow_id === hasChain) {
+			throw new Error(`Map node '${node.id}' requires exactly one of workflow_id or nodes in config`);
+		}
+
+		if (hasChain) {
+			for (const chainNode of nodes) {
+				const result = NodeSchema.safeParse(chainNode);
+				if (!result.success) {
+					throw new Error(`Map node '${node.id}' has an invalid inline node: ${result.error.message}`);
+				}
+			}
+		}
+	}
+
+	private validateWaitForInputNode(node: NodeDTO, endNode: string): void {
+		if (node.id === endNode) {
+			throw new Error(`wait_for_input node '${node.id}' cannot be the end node`);
+		}
+
+		const { schema } = node.config;
+		if (schema !== undefined && (typeof schema !== 'object' || schema === null || Array.isArray(schema))) {
+			throw new Error(`wait_for_input node '${node.id}' requires schema to be a JSON Schema object`);
+		}
+	}
+
+	private validateParallelEdge(edge: ParallelEdge, nodes: NodeDTO[]): void {
+		const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+
+		for (const branch of edge.branches) {
+			if (!nodeMap.has(branch)) {
+				throw new Error(`Parallel edge '${edge.id}' references non-existent branch node: ${branch}`);
+			}
+			if (branch === edge.join) {
+				throw new Error(`Parallel edge '${edge.id}' cannot use its join node '${edge.join}' as a branch`);
+			}
+		}
+
+		if (new Set(edge.branches).size !== edge.branches.length) {
+			throw new Error(`Parallel edge '${edge.id}' has duplicate branches`);
+		}
+
+		const joinNode = nodeMap.get(edge.join);
+		if (!joinNode) {
+			throw new Error(`Parallel edge '${edge.id}' references non-existent join node: ${edge.join}`);
+		}
+
+		if (joinNode.type !== 'join') {
+			throw new Error(`Parallel edge '${edge.id}' must join on a node of type 'join', got '${joinNode.type}'`);
+		}
+
+		const wait = joinNode.config?.wait;
+		if (wait !== undefined && (!Number.isInteger(wait) || wait < 1 || wait > edge.branches.length)) {
+			throw new Error(
+				`Join node '${joinNode.id}' waits for ${wait} branches but parallel edge '${edge.id}' has ${edge.branches.length}`
+			);
+		}
+	}
 }
@@ -2,20 +2,163 @@ export function generateId(): string {
   return crypto.randomUUID();
 }
 
-export function validateJsonSchema(data: any, schema: any): boolean {
-  // Simple JSON Schema validation
-  // In production, use a library like ajv
-  if (schema.type === 'object') {
-    if (typeof data !== 'object' || data === null) return false;
-
-    if (schema.required) {
-      for (const field of schema.required) {
-        if (!(field in data)) return false;
+/**
+ * Runs `fn` over `items` with at most `concurrency` calls at a time. After the first failure no
+ * further items are started; the calls already running are awaited before that failure is rethrown.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
       }
     }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, () => worker());
+  await Promise.all(workers);
+
+  if (failure) {
+    throw failure.error;
+  }
+
+  return results;
+}
+
+/**
+ * Creates a signal that aborts when `parent` aborts or after `timeoutMs`, whichever comes first.
+ * Call `clear` once the guarded work is done so the timer and listener do not leak.
+ */
+export function createTimeoutSignal(
+  parent: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+  createReason: () => Error
+): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
 
-    return true;
+  const timer = timeoutMs ? setTimeout(() => controller.abort(createReason()), timeoutMs) : undefined;
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+export function raceWithSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
   }
 
-  return true;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Waits `ms`, or rejects with the abort reason as soon as `signal` aborts, clearing the timer.
+ */
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const delay = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, ms);
+  });
+
+  try {
+    await (signal ? raceWithSignal(delay, signal) : delay);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Hex encoded HMAC-SHA256 of `payload`, used to sign execution callbacks.
+ */
+export async function signPayload(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+
+  return toHex(signature);
+}
+
+/**
+ * Hex encoded SHA-256 digest of `value`, e.g. for ids derived from content.
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return toHex(digest);
+}
+
+/**
+ * AES-GCM encrypts `plaintext` with a key derived from `secret`, e.g. the CONFIG_ENCRYPTION_KEY Worker secret.
+ * Returns the base64 encoded IV followed by the ciphertext.
+ */
+export async function encryptSecret(secret: string, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveEncryptionKey(secret);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  const payload = new Uint8Array(iv.length + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), iv.length);
+
+  return btoa(String.fromCharCode(...payload));
+}
+
+/**
+ * Reverses `encryptSecret`. Throws when `secret` is not the key the value was encrypted with.
+ */
+export async function decryptSecret(secret: string, encrypted: string): Promise<string> {
+  const payload = Uint8Array.from(atob(encrypted), (char) => char.charCodeAt(0));
+  const key = await deriveEncryptionKey(secret);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: payload.slice(0, 12) },
+    key,
+    payload.slice(12)
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
+
+// The secret can be any string, so it is hashed to the 256 bits AES needs
+async function deriveEncryptionKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return await crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
 }
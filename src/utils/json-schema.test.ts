@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { applyJsonSchemaDefaults, coerceJsonSchemaTypes, validateJsonSchema } from './json-schema';
+
+describe('json-schema', () => {
+  const schema = {
+    type: 'object',
+    required: ['query'],
+    properties: {
+      query: { type: 'string', minLength: 1 },
+      topK: { type: 'integer', default: 3 },
+      filters: {
+        type: 'object',
+        properties: {
+          tags: { type: 'array', items: { type: 'string' } },
+          archived: { type: 'boolean', default: false },
+        },
+        additionalProperties: false,
+      },
+    },
+  };
+
+  describe('validateJsonSchema', () => {
+    it('should return one error per invalid field', () => {
+      const errors = validateJsonSchema({ topK: 'many', filters: { tags: ['a', 2], owner: 'me' } }, schema);
+
+      expect(errors).toEqual([
+        { path: 'query', message: 'Required' },
+        { path: 'topK', message: 'Instance type "string" is invalid. Expected "integer".' },
+        { path: 'filters.tags[1]', message: 'Instance type "number" is invalid. Expected "string".' },
+        { path: 'filters.owner', message: 'Property is not allowed' },
+      ]);
+    });
+
+    it('should support draft 2020-12 keywords', () => {
+      const tuple = { type: 'array', prefixItems: [{ type: 'string' }, { type: 'number' }], items: false };
+
+      expect(validateJsonSchema(['a', 1], tuple)).toEqual([]);
+      expect(validateJsonSchema(['a', 'b'], tuple)).toEqual([
+        { path: '[1]', message: 'Instance type "string" is invalid. Expected "number".' },
+      ]);
+    });
+  });
+
+  describe('applyJsonSchemaDefaults', () => {
+    it('should fill in missing properties without changing the input', () => {
+      const parameters = { query: 'docs', filters: {} };
+
+      expect(applyJsonSchemaDefaults(parameters, schema)).toEqual({
+        query: 'docs',
+        topK: 3,
+        filters: { archived: false },
+      });
+      expect(parameters).toEqual({ query: 'docs', filters: {} });
+    });
+  });
+
+  describe('coerceJsonSchemaTypes', () => {
+    it('should convert strings to the declared types when the conversion is lossless', () => {
+      const coerced = coerceJsonSchemaTypes(
+        { query: 42, topK: '5', filters: { archived: 'true', tags: ['a'] } },
+        schema
+      );
+
+      expect(coerced).toEqual({ query: '42', topK: 5, filters: { archived: true, tags: ['a'] } });
+      expect(coerceJsonSchemaTypes({ topK: '2.5' }, schema)).toEqual({ topK: '2.5' });
+    });
+  });
+});
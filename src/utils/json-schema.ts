@@ -0,0 +1,218 @@
+import { Validator } from '@cfworker/json-schema';
+import type { OutputUnit, Schema } from '@cfworker/json-schema';
+import { formatConfigPath } from './node-config';
+
+export interface JsonSchemaError {
+	// Dotted path of the invalid value, e.g. `filters.tags[1]`. Empty for the value itself.
+	path: string;
+	message: string;
+}
+
+// Keywords whose errors only repeat the errors of their subschemas
+const CONTAINER_KEYWORDS = new Set([
+	'properties',
+	'patternProperties',
+	'additionalProperties',
+	'unevaluatedProperties',
+	'items',
+	'prefixItems',
+	'additionalItems',
+	'unevaluatedItems',
+	'allOf',
+	'$ref',
+	'$recursiveRef',
+	'dependentSchemas',
+	'then',
+	'else',
+]);
+
+// Errors under these keywords are summarised by the keyword's own error
+const BRANCH_KEYWORDS = /\/(anyOf|oneOf|not)\//;
+
+/**
+ * Validates `data` against a JSON Schema (draft 2020-12 unless the schema declares `$schema`)
+ * and returns one error per invalid field.
+ */
+export function validateJsonSchema(data: any, schema: Record<string, any>): JsonSchemaError[] {
+	const validator = new Validator(schema as Schema, '2020-12', false);
+	const result = validator.validate(data);
+	if (result.valid) {
+		return [];
+	}
+
+	const leaves = result.errors.filter(
+		(unit) => !CONTAINER_KEYWORDS.has(unit.keyword) && !BRANCH_KEYWORDS.test(unit.keywordLocation)
+	);
+
+	// A property that fails its own schema is also reported against `additionalProperties: false`
+	const relevant = leaves.filter(
+		(unit) => unit.keyword !== 'false' || !leaves.some((other) => other.keyword !== 'false' && isWithin(other, unit))
+	);
+
+	const errors: JsonSchemaError[] = [];
+	const seen = new Set<string>();
+	for (const error of relevant.map(toError)) {
+		const key = `${error.path}\n${error.message}`;
+		if (!seen.has(key)) {
+			seen.add(key);
+			errors.push(error);
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Returns a copy of `data` with the `default` of every missing property filled in,
+ * including properties of nested objects and array items.
+ */
+export function applyJsonSchemaDefaults(data: any, schema: Record<string, any>): any {
+	if (Array.isArray(data)) {
+		return isPlainObject(schema.items) ? data.map((item) => applyJsonSchemaDefaults(item, schema.items)) : data;
+	}
+
+	if (!isPlainObject(data) || !isPlainObject(schema.properties)) {
+		return data;
+	}
+
+	const result: Record<string, any> = { ...data };
+	for (const [key, property] of Object.entries<any>(schema.properties)) {
+		if (!isPlainObject(property)) {
+			continue;
+		}
+		if (result[key] === undefined && property.default !== undefined) {
+			result[key] = structuredClone(property.default);
+		}
+		if (result[key] !== undefined) {
+			result[key] = applyJsonSchemaDefaults(result[key], property);
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Converts values to the type their schema declares where that is lossless, e.g. `"3"` to `3`
+ * or `"true"` to `true`. Used for parameters that arrive as strings, such as `execute-raw` bodies.
+ */
+export function coerceJsonSchemaTypes(data: any, schema: Record<string, any>): any {
+	if (!isPlainObject(schema)) {
+		return data;
+	}
+
+	if (Array.isArray(data)) {
+		return isPlainObject(schema.items) ? data.map((item) => coerceJsonSchemaTypes(item, schema.items)) : data;
+	}
+
+	if (isPlainObject(data)) {
+		if (!isPlainObject(schema.properties)) {
+			return data;
+		}
+
+		const result: Record<string, any> = { ...data };
+		for (const [key, property] of Object.entries<any>(schema.properties)) {
+			if (result[key] !== undefined) {
+				result[key] = coerceJsonSchemaTypes(result[key], property);
+			}
+		}
+		return result;
+	}
+
+	const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+	if (types.length === 0 || types.some((type) => matchesType(data, type))) {
+		return data;
+	}
+
+	for (const type of types) {
+		const coerced = coerceValue(data, type);
+		if (coerced !== undefined) {
+			return coerced;
+		}
+	}
+
+	return data;
+}
+
+function coerceValue(value: any, type: string): any {
+	switch (type) {
+		case 'number':
+		case 'integer': {
+			if (typeof value === 'boolean') {
+				return value ? 1 : 0;
+			}
+			if (typeof value !== 'string' || value.trim() === '') {
+				return undefined;
+			}
+			const number = Number(value);
+			if (Number.isNaN(number) || (type === 'integer' && !Number.isInteger(number))) {
+				return undefined;
+			}
+			return number;
+		}
+		case 'boolean':
+			if (value === 'true' || value === 1) {
+				return true;
+			}
+			if (value === 'false' || value === 0) {
+				return false;
+			}
+			return undefined;
+		case 'string':
+			return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+		case 'null':
+			return value === '' || value === 'null' ? null : undefined;
+		default:
+			return undefined;
+	}
+}
+
+function matchesType(value: any, type: string): boolean {
+	switch (type) {
+		case 'integer':
+			return Number.isInteger(value);
+		case 'number':
+			return typeof value === 'number';
+		case 'null':
+			return value === null;
+		case 'array':
+			return Array.isArray(value);
+		case 'object':
+			return isPlainObject(value);
+		default:
+			return typeof value === type;
+	}
+}
+
+function toError(unit: OutputUnit): JsonSchemaError {
+	const segments = unit.instanceLocation.replace(/^#\/?/, '').split('/').filter(Boolean);
+
+	if (unit.keyword === 'required') {
+		const property = unit.error.match(/required property "(.+)"/)?.[1];
+		if (property !== undefined) {
+			return { path: formatPath([...segments, property]), message: 'Required' };
+		}
+	}
+
+	if (unit.keyword === 'false') {
+		return { path: formatPath(segments), message: 'Property is not allowed' };
+	}
+
+	return { path: formatPath(segments), message: unit.error };
+}
+
+function formatPath(segments: string[]): string {
+	return formatConfigPath(
+		segments.map((segment) => {
+			const decoded = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+			return /^\d+$/.test(decoded) ? Number(decoded) : decoded;
+		})
+	);
+}
+
+function isWithin(unit: OutputUnit, ancestor: OutputUnit): boolean {
+	return unit.instanceLocation === ancestor.instanceLocation || unit.instanceLocation.startsWith(`${ancestor.instanceLocation}/`);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { findNodeConfigIssues, formatConfigPath } from './node-config';
+
+describe('findNodeConfigIssues', () => {
+  const schema = z.object({
+    model: z.string().min(1),
+    max_tokens: z.number().int().optional(),
+    messages: z.array(z.object({ role: z.string(), content: z.string() })).optional(),
+  });
+
+  it('should report missing fields and wrong types with their path', () => {
+    const issues = findNodeConfigIssues(schema, {
+      max_tokens: 'many',
+      messages: [{ role: 'user', content: 42 }],
+    });
+
+    expect(issues).toEqual([
+      { path: 'model', message: 'Required' },
+      { path: 'max_tokens', message: 'Expected number, received string' },
+      { path: 'messages[0].content', message: 'Expected string, received number' },
+    ]);
+  });
+
+  it('should accept template strings wherever a value is expected when templates are allowed', () => {
+    const config = {
+      model: '{{config.MODEL}}',
+      max_tokens: '{{parameters.limit}}',
+      messages: '{{state.history}}',
+    };
+
+    expect(findNodeConfigIssues(schema, config, { allowTemplates: true })).toEqual([]);
+    expect(findNodeConfigIssues(schema, config).map((issue) => issue.path)).toEqual(['max_tokens', 'messages']);
+  });
+
+  it('should still report plain strings and missing fields when templates are allowed', () => {
+    const issues = findNodeConfigIssues(schema, { max_tokens: 'many' }, { allowTemplates: true });
+
+    expect(issues.map((issue) => issue.path)).toEqual(['model', 'max_tokens']);
+  });
+
+  it('should format nested paths', () => {
+    expect(formatConfigPath(['vectors', 0, 'metadata', 'source'])).toBe('vectors[0].metadata.source');
+    expect(formatConfigPath([])).toBe('');
+  });
+});
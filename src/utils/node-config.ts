@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+export interface NodeConfigIssue {
+	// Dotted path inside the config, e.g. `messages[0].content`
+	path: string;
+	message: string;
+}
+
+export interface NodeConfigCheckOptions {
+	// Accept `{{...}}` strings wherever a value is expected, for configs that are not resolved yet
+	allowTemplates?: boolean;
+}
+
+const TEMPLATE_PATTERN = /\{\{.*?\}\}/s;
+
+/**
+ * Checks a node config against its executor's schema. With `allowTemplates`, an issue is
+ * dropped when the value it points at, or any value above it, is a template string.
+ */
+export function findNodeConfigIssues(
+	schema: z.ZodTypeAny,
+	config: unknown,
+	options: NodeConfigCheckOptions = {}
+): NodeConfigIssue[] {
+	const result = schema.safeParse(config ?? {});
+	if (result.success) {
+		return [];
+	}
+
+	return result.error.issues
+		.filter((issue) => !options.allowTemplates || !isTemplated(config, issue.path))
+		.map((issue) => ({ path: formatConfigPath(issue.path), message: issue.message }));
+}
+
+export function formatConfigPath(path: (string | number)[]): string {
+	return path.reduce<string>((result, segment) => {
+		if (typeof segment === 'number') {
+			return `${result}[${segment}]`;
+		}
+		return result ? `${result}.${segment}` : segment;
+	}, '');
+}
+
+function isTemplated(config: unknown, path: (string | number)[]): boolean {
+	let value: any = config;
+
+	for (const segment of path) {
+		if (isTemplateString(value)) {
+			return true;
+		}
+		if (value === null || typeof value !== 'object') {
+			return false;
+		}
+		value = value[segment];
+	}
+
+	return isTemplateString(value);
+}
+
+function isTemplateString(value: unknown): boolean {
+	return typeof value === 'string' && TEMPLATE_PATTERN.test(value);
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { collectSecretValues, findSecretValues, maskSecretVariables, redactSecrets, restoreRedacted, scrubSecrets } from './redact';
+
+describe('redact', () => {
+  const config = {
+    apiUrl: 'https://api.example.com',
+    cloudflare: { accountId: 'account-1', apiToken: 'cf-token-123456' },
+    OPENAI_API_KEY: 'sk-abcdef',
+    pin: '1234',
+  };
+
+  it('should find the values of secret-looking keys', () => {
+    expect(findSecretValues(config)).toEqual(['cf-token-123456', 'sk-abcdef']);
+  });
+
+  it('should redact secret keys and secret values inside other strings', () => {
+    const resolved = {
+      url: 'https://api.example.com/users',
+      headers: { Authorization: 'Bearer cf-token-123456', 'X-Trace': 'sk-abcdef:1' },
+      body: { password: 42, credentials: { user: 'me' } },
+    };
+
+    expect(redactSecrets(resolved, findSecretValues(config))).toEqual({
+      url: 'https://api.example.com/users',
+      headers: { Authorization: '[REDACTED]', 'X-Trace': '[REDACTED]:1' },
+      body: { password: '[REDACTED]', credentials: { user: 'me' } },
+    });
+    expect(resolved.headers.Authorization).toBe('Bearer cf-token-123456');
+  });
+
+  it('should collect the values of flagged variables, including those inside objects', () => {
+    expect(collectSecretValues(
+      { pin: '123456', db: { user: 'app_user', password: 12345678 }, plain: 'not-a-secret' },
+      ['pin', 'db', 'missing']
+    )).toEqual(['123456', 'app_user', '12345678']);
+  });
+
+  it('should not collect flagged values too short to scrub without hitting unrelated text', () => {
+    const secrets = collectSecretValues({ DEBUG_TOKEN: 'true', PIN: 1, db: { user: 'app' } }, ['DEBUG_TOKEN', 'PIN', 'db']);
+
+    expect(secrets).toEqual([]);
+    expect(scrubSecrets({ text: 'Step 1 is true for the app' }, secrets)).toEqual({ text: 'Step 1 is true for the app' });
+  });
+
+  it('should scrub secret values without masking secret-looking keys', () => {
+    const output = { text: 'token is sk-abcdef', usage: { prompt_tokens: 12 }, vector: new Float32Array([0.5]) };
+
+    expect(scrubSecrets(output, ['sk-abcdef'])).toEqual({
+      text: 'token is [REDACTED]',
+      usage: { prompt_tokens: 12 },
+      vector: output.vector,
+    });
+    expect(scrubSecrets(output, [])).toBe(output);
+  });
+
+  it('should mask only flagged variables and restore them from the config', () => {
+    const variables = { ...config, ACCESS_TOKEN_URL: 'https://auth.example.com', max_tokens: 1024, DB_URL: 'postgres://db' };
+    const masked = maskSecretVariables(variables, ['DB_URL', 'OPENAI_API_KEY']);
+
+    expect(masked).toEqual({
+      apiUrl: 'https://api.example.com',
+      cloudflare: { accountId: 'account-1', apiToken: 'cf-token-123456' },
+      OPENAI_API_KEY: '[REDACTED]',
+      pin: '1234',
+      ACCESS_TOKEN_URL: 'https://auth.example.com',
+      max_tokens: 1024,
+      DB_URL: '[REDACTED]',
+    });
+    expect(restoreRedacted(masked, variables)).toEqual(variables);
+    expect(restoreRedacted(masked, {}).DB_URL).toBe('[REDACTED]');
+  });
+});
@@ -0,0 +1,135 @@
+export const REDACTED = '[REDACTED]';
+
+const SECRET_KEY_PATTERN = /api[-_]?key|token|secret|password|passwd|credential|authorization|cookie/i;
+
+// Shorter values would also blank out unrelated text that happens to contain them
+const MIN_SECRET_LENGTH = 6;
+
+export function isSecretKey(key: string): boolean {
+	return SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * String values stored under secret-looking keys anywhere in `config`, e.g. `config.cloudflare.apiToken`.
+ */
+export function findSecretValues(config: Record<string, any> | null | undefined): string[] {
+	const secrets = new Set<string>();
+
+	const visit = (value: any, key?: string) => {
+		if (typeof value === 'string') {
+			if (key !== undefined && isSecretKey(key) && value.length >= MIN_SECRET_LENGTH) {
+				secrets.add(value);
+			}
+		} else if (Array.isArray(value)) {
+			value.forEach((item) => visit(item, key));
+		} else if (typeof value === 'object' && value !== null) {
+			Object.entries(value).forEach(([childKey, child]) => visit(child, childKey));
+		}
+	};
+
+	visit(config);
+	return [...secrets];
+}
+
+/**
+ * Values of the config variables flagged as secret, including the strings inside object values.
+ * Values shorter than `MIN_SECRET_LENGTH` are left out like in `findSecretValues`; the variables
+ * themselves are still masked by key in the persisted config.
+ */
+export function collectSecretValues(config: Record<string, any> | null | undefined, secretKeys: string[]): string[] {
+	const secrets = new Set<string>();
+
+	const visit = (value: any) => {
+		if (typeof value === 'string' || typeof value === 'number') {
+			if (String(value).length >= MIN_SECRET_LENGTH) {
+				secrets.add(String(value));
+			}
+		} else if (Array.isArray(value)) {
+			value.forEach(visit);
+		} else if (typeof value === 'object' && value !== null) {
+			Object.values(value).forEach(visit);
+		}
+	};
+
+	secretKeys.forEach((key) => visit(config?.[key]));
+	return [...secrets];
+}
+
+/**
+ * Copy of `value` with the values of secret-looking keys replaced by `[REDACTED]`, and every
+ * occurrence of `secretValues` inside other strings too, e.g. a token templated into a header.
+ */
+export function redactSecrets<T>(value: T, secretValues: string[] = []): T {
+	return replaceSecrets(value, secretValues, true);
+}
+
+/**
+ * Copy of `value` with only the occurrences of `secretValues` replaced, for node outputs and events,
+ * whose keys (e.g. `prompt_tokens`) often look like secrets without being one.
+ */
+export function scrubSecrets<T>(value: T, secretValues: string[]): T {
+	return secretValues.length === 0 ? value : replaceSecrets(value, secretValues, false);
+}
+
+/**
+ * Copy of config `variables` with the `secretKeys` masked, as persisted with executions.
+ * Only flagged variables are masked, so `restoreRedacted` can always get them back from the config.
+ */
+export function maskSecretVariables(variables: Record<string, any>, secretKeys: string[]): Record<string, any> {
+	return Object.fromEntries(
+		Object.entries(variables).map(([key, value]) => [key, secretKeys.includes(key) ? REDACTED : value])
+	);
+}
+
+/**
+ * Copy of `redacted` with every `[REDACTED]` value taken from the same path in `source`, e.g. to
+ * get the secrets of a persisted execution config back from its config.
+ */
+export function restoreRedacted<T>(redacted: T, source: any): T {
+	if (redacted === REDACTED) {
+		return source === undefined ? redacted : source;
+	}
+	if (Array.isArray(redacted)) {
+		return redacted.map((item, i) => restoreRedacted(item, Array.isArray(source) ? source[i] : undefined)) as T;
+	}
+	if (typeof redacted === 'object' && redacted !== null) {
+		return Object.fromEntries(
+			Object.entries(redacted).map(([key, child]) => [key, restoreRedacted(child, source?.[key])])
+		) as T;
+	}
+	return redacted;
+}
+
+function replaceSecrets<T>(value: T, secretValues: string[], redactKeys: boolean): T {
+	// Longest first, so a secret that contains another one is replaced as a whole
+	const secrets = [...secretValues].sort((a, b) => b.length - a.length);
+
+	const redact = (current: any): any => {
+		if (typeof current === 'string') {
+			return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), current);
+		}
+		if (Array.isArray(current)) {
+			return current.map(redact);
+		}
+		// Class instances, e.g. typed arrays of embeddings or dates, are kept as they are
+		if (isPlainObject(current)) {
+			return Object.fromEntries(
+				Object.entries(current).map(([key, child]) => [
+					key,
+					redactKeys && isSecretKey(key) && child !== null && typeof child !== 'object' ? REDACTED : redact(child),
+				])
+			);
+		}
+		return current;
+	};
+
+	return redact(value);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
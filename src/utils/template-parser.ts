@@ -45,6 +45,16 @@ export class TemplateParser {
 		return expr.evaluate(context);
 	}
 
+  // Bodies of the `{{...}}` expressions embedded in a string
+  expressions(template: string): string[] {
+    return [...template.matchAll(/\{\{([^}]+)\}\}/g)].map((match) => match[1].trim());
+  }
+
+  // Variables an expression reads, including member paths, e.g. `parent.fetch.result`. Throws on syntax errors
+  variables(expression: string): string[] {
+    return new Parser().parse(expression).variables({ withMembers: true });
+  }
+
   private parseString(template: string, context: Record<string, any>): any {
     if (this.isFullTemplateExpression(template)) {
       const path = this.extractPath(template);
@@ -10,6 +10,8 @@ declare namespace Cloudflare {
 		DB: D1Database;
 		DEFAULT_VECTORIZE_INDEX: VectorizeIndex;
 		AI: Ai;
+		CALLBACK_SIGNING_SECRET: string;
+		CONFIG_ENCRYPTION_KEY: string;
 	}
 }
 interface Env extends Cloudflare.Env {}